@@ -1,7 +1,25 @@
-import { DetailLevel, getEstimatedTriangleCount } from '@/lib/meshProcessor';
-import { RGB, rgbToHex } from '@/lib/colorQuantization';
+import { useState } from 'react';
+import { DetailLevel, SubdivisionMode, getEstimatedTriangleCount } from '@/lib/meshProcessor';
+import { RGB, ColorSpace, rgbToHex } from '@/lib/colorQuantization';
+import { ExportMode } from '@/lib/export3MF';
+import { Filament, PaletteMode, getFilamentDisplayName } from '@/lib/filamentLibrary';
+import { SamplingMode } from '@/lib/colorExtractor';
+import { UVDistortion } from '@/lib/meshSimplifier';
+import { MeshStats } from '@/lib/meshRepair';
+import {
+  BedSize,
+  LengthUnit,
+  ModelOrientation,
+  ModelSizing,
+  SizingMode,
+  UnitDetection,
+  UNIT_TO_MM,
+  rotateOrientation,
+} from '@/lib/modelTransform';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { 
   Download, 
   Loader2, 
@@ -9,7 +27,13 @@ import {
   Palette,
   Settings2,
   Eye,
-  EyeOff
+  EyeOff,
+  AlertTriangle,
+  Ruler,
+  Rotate3d,
+  RotateCcw,
+  Wand2,
+  MousePointerClick
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 const DETAIL_OPTIONS: { value: DetailLevel; label: string; description: string }[] = [
@@ -19,17 +43,120 @@ const DETAIL_OPTIONS: { value: DetailLevel; label: string; description: string }
   { value: 'high', label: 'Alto', description: '~500k triângulos' },
 ];
 
+const UNIT_OPTIONS: { value: LengthUnit; label: string }[] = [
+  { value: 'mm', label: 'mm' },
+  { value: 'cm', label: 'cm' },
+  { value: 'm', label: 'm' },
+  { value: 'in', label: 'pol' },
+];
+
+const SIZING_MODE_OPTIONS: { value: SizingMode; label: string; description: string }[] = [
+  { value: 'scale', label: 'Escala', description: 'Fator de escala sobre a unidade do arquivo' },
+  { value: 'height', label: 'Altura', description: 'Altura final (Z) em mm' },
+  { value: 'width', label: 'Largura', description: 'Largura final em mm' },
+  { value: 'longest', label: 'Maior', description: 'Maior dimensão final em mm' },
+];
+
+const BED_PRESETS: { label: string; size: BedSize }[] = [
+  { label: 'X1C/P1S', size: { width: 256, depth: 256 } },
+  { label: 'A1 mini', size: { width: 180, depth: 180 } },
+  { label: 'MK4', size: { width: 250, depth: 210 } },
+  { label: 'Ender 3', size: { width: 220, depth: 220 } },
+];
+
+const SAMPLING_OPTIONS: { value: SamplingMode; label: string; description: string }[] = [
+  { value: 'centroid', label: 'Centro', description: 'Um texel no centro de cada triângulo (mais rápido)' },
+  { value: 'bilinear', label: 'Bilinear', description: 'Centro do triângulo com filtragem bilinear' },
+  { value: 'area', label: 'Área', description: 'Média de todos os texels cobertos pelo triângulo' },
+  { value: 'majority', label: 'Maioria', description: 'Cor predominante entre os texels cobertos' },
+];
+
+const COLOR_SPACE_OPTIONS: { value: ColorSpace; label: string; description: string }[] = [
+  { value: 'srgb', label: 'sRGB', description: 'Distância direta nos valores RGB' },
+  { value: 'linear', label: 'Linear', description: 'RGB linear (luz física)' },
+  { value: 'lab', label: 'CIELAB', description: 'CIELAB com diferença CIEDE2000' },
+  { value: 'oklab', label: 'OKLab', description: 'Espaço perceptual uniforme (recomendado)' },
+];
+
+const PALETTE_MODE_OPTIONS: { value: PaletteMode; label: string; description: string }[] = [
+  { value: 'auto', label: 'Livre', description: 'Cores calculadas a partir da textura' },
+  { value: 'library', label: 'Biblioteca', description: 'Escolhe as melhores cores entre os filamentos cadastrados' },
+  { value: 'snap', label: 'Ajustar', description: 'Calcula a paleta e troca cada cor pelo filamento mais próximo' },
+];
+
+// 0 disables the printability check
+const NOZZLE_OPTIONS = [0, 0.2, 0.4, 0.6, 0.8];
+
+const EXPORT_MODE_OPTIONS: { value: ExportMode; label: string; description: string }[] = [
+  { value: 'flat', label: 'Objetos', description: 'Um objeto por cor' },
+  { value: 'multi_volume', label: 'Partes', description: 'Um objeto com uma parte por cor, filamentos já atribuídos' },
+  { value: 'painted', label: 'Pintura', description: 'Malha única com pintura multi-material (PrusaSlicer/OrcaSlicer)' },
+  { value: 'materials', label: 'Materiais', description: 'Cores padrão 3MF (basematerials) para Windows 3D Viewer, Cura etc.' },
+  { value: 'bambu', label: 'Bambu', description: 'Projeto Bambu Studio com filamentos (AMS) já configurados' },
+  { value: 'texture', label: 'Textura', description: 'Textura original embutida para impressoras full-color (sem quantização)' },
+];
+
 interface ControlPanelProps {
   // Model info
   originalTriangles: number;
+
+  // Sizing
+  sizing: ModelSizing;
+  onSizingChange: (sizing: ModelSizing) => void;
+  unitDetection?: UnitDetection;
+  /** Current scale from source units to mm */
+  sizingScale: number;
+  /** Resulting bounding box size in print axes (mm) */
+  dimensions: { x: number; y: number; z: number };
+
+  // Orientation and bed
+  orientation: ModelOrientation;
+  onOrientationChange: (orientation: ModelOrientation) => void;
+  bedSize: BedSize;
+  onBedSizeChange: (size: BedSize) => void;
+  onAutoOrient: () => void;
+  isOrienting: boolean;
+  /** Clicking a face in the viewer lays it on the bed */
+  layFlatMode: boolean;
+  onLayFlatModeChange: (enabled: boolean) => void;
   
   // Detail level
   detailLevel: DetailLevel;
   onDetailLevelChange: (level: DetailLevel) => void;
+  subdivisionMode: SubdivisionMode;
+  onSubdivisionModeChange: (mode: SubdivisionMode) => void;
+  /** Adaptive subdivision target edge length (mm) */
+  maxEdgeLength: number;
+  onMaxEdgeLengthChange: (length: number) => void;
   
   // Colors
   numColors: number;
   onNumColorsChange: (num: number) => void;
+  samplingMode: SamplingMode;
+  onSamplingModeChange: (mode: SamplingMode) => void;
+  splitColorBoundaries: boolean;
+  onSplitColorBoundariesChange: (split: boolean) => void;
+  colorSpace: ColorSpace;
+  onColorSpaceChange: (space: ColorSpace) => void;
+  refinePalette: boolean;
+  onRefinePaletteChange: (refine: boolean) => void;
+  paletteMode: PaletteMode;
+  onPaletteModeChange: (mode: PaletteMode) => void;
+  onOpenFilamentLibrary: () => void;
+  /** Color islands below this area (mm²) are merged; 0 disables */
+  minRegionArea: number;
+  onMinRegionAreaChange: (area: number) => void;
+  smoothRegions: boolean;
+  onSmoothRegionsChange: (smooth: boolean) => void;
+  /** Regions narrower than the nozzle are flagged; 0 disables the check */
+  nozzleDiameter: number;
+  onNozzleDiameterChange: (diameter: number) => void;
+  mergeThinRegions: boolean;
+  onMergeThinRegionsChange: (merge: boolean) => void;
+  /** Reprocess merging the thin regions found */
+  onMergeThinRegions: () => void;
+  repairMesh: boolean;
+  onRepairMeshChange: (repair: boolean) => void;
   
   // Processing state
   isProcessing: boolean;
@@ -41,11 +168,23 @@ interface ControlPanelProps {
   onTogglePreview: () => void;
   
   // Export
+  exportMode: ExportMode;
+  onExportModeChange: (mode: ExportMode) => void;
   onExport: () => void;
   
   // Results
   colorStats?: { color: RGB; count: number; percentage: number }[];
+  /** Library filaments backing the processed palette */
+  paletteFilaments?: Filament[];
   processedTriangles?: number;
+  /** UV shift caused by simplification */
+  uvDistortion?: UVDistortion;
+  /** Color region counts before/after cleanup */
+  regionCounts?: { before: number; after: number };
+  /** Printability check result */
+  thinRegions?: { minWidth: number; count: number; merged: number };
+  /** Mesh stats before/after repair */
+  repairStats?: { before: MeshStats; after: MeshStats; filledHoles: number; flippedFaces: number };
   
   // Safety
   estimatedTriangles?: number;
@@ -54,18 +193,64 @@ interface ControlPanelProps {
 
 export function ControlPanel({
   originalTriangles,
+  sizing,
+  onSizingChange,
+  unitDetection,
+  sizingScale,
+  dimensions,
+  orientation,
+  onOrientationChange,
+  bedSize,
+  onBedSizeChange,
+  onAutoOrient,
+  isOrienting,
+  layFlatMode,
+  onLayFlatModeChange,
   detailLevel,
   onDetailLevelChange,
+  subdivisionMode,
+  onSubdivisionModeChange,
+  maxEdgeLength,
+  onMaxEdgeLengthChange,
   numColors,
   onNumColorsChange,
+  samplingMode,
+  onSamplingModeChange,
+  splitColorBoundaries,
+  onSplitColorBoundariesChange,
+  colorSpace,
+  onColorSpaceChange,
+  refinePalette,
+  onRefinePaletteChange,
+  paletteMode,
+  onPaletteModeChange,
+  onOpenFilamentLibrary,
+  minRegionArea,
+  onMinRegionAreaChange,
+  smoothRegions,
+  onSmoothRegionsChange,
+  nozzleDiameter,
+  onNozzleDiameterChange,
+  mergeThinRegions,
+  onMergeThinRegionsChange,
+  onMergeThinRegions,
+  repairMesh,
+  onRepairMeshChange,
   isProcessing,
   isProcessed,
   onProcess,
   showProcessed,
   onTogglePreview,
+  exportMode,
+  onExportModeChange,
   onExport,
   colorStats,
+  paletteFilaments,
   processedTriangles,
+  uvDistortion,
+  regionCounts,
+  thinRegions,
+  repairStats,
   estimatedTriangles: propEstimatedTriangles,
   exceedsLimit = false,
 }: ControlPanelProps) {
@@ -73,6 +258,25 @@ export function ControlPanel({
   const willSimplify = originalTriangles > estimatedTriangles;
   const willSubdivide = originalTriangles < 100000 && detailLevel !== 'low';
 
+  // Palette colors are the filament colors themselves, so match by hex
+  const findFilament = (color: RGB) =>
+    paletteFilaments?.find(f => f.color.toLowerCase() === rgbToHex(color));
+
+  // Raw text of the sizing field while it is being edited (may be empty or partial)
+  const [sizingDraft, setSizingDraft] = useState<string | null>(null);
+
+  const exceedsBed = dimensions.x > bedSize.width || dimensions.y > bedSize.depth;
+
+  // Switching mode keeps the current size: the new value is what the model measures now
+  const handleSizingModeChange = (mode: SizingMode) => {
+    const value =
+      mode === 'scale' ? sizingScale / UNIT_TO_MM[sizing.unit] :
+      mode === 'height' ? dimensions.z :
+      mode === 'width' ? dimensions.x :
+      Math.max(dimensions.x, dimensions.y, dimensions.z);
+    onSizingChange({ ...sizing, mode, value: Number(value.toFixed(mode === 'scale' ? 4 : 2)) });
+  };
+
   return (
     <div className="space-y-6 p-6 bg-card rounded-lg border border-border">
       {/* Model Info */}
@@ -86,6 +290,197 @@ export function ControlPanel({
         </div>
       </div>
 
+      {/* Sizing */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <Ruler className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Dimensões</h3>
+        </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+          <span>Unidade do arquivo</span>
+          {unitDetection && (
+            <span title={unitDetection.reason}>
+              detectada: <span className="font-mono text-foreground">{unitDetection.unit}</span>
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {UNIT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onSizingChange({ ...sizing, unit: option.value })}
+              disabled={isProcessing}
+              className={cn(
+                "px-2 py-1.5 rounded-md text-xs transition-all",
+                "border border-border hover:border-primary/50",
+                sizing.unit === option.value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-secondary-foreground"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {unitDetection && (
+          <p className="mt-1 text-xs text-muted-foreground">{unitDetection.reason}</p>
+        )}
+        <div className="mt-3 grid grid-cols-4 gap-2">
+          {SIZING_MODE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => handleSizingModeChange(option.value)}
+              disabled={isProcessing}
+              title={option.description}
+              className={cn(
+                "px-2 py-1.5 rounded-md text-xs transition-all",
+                "border border-border hover:border-primary/50",
+                sizing.mode === option.value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-secondary-foreground"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            step={sizing.mode === 'scale' ? 0.1 : 1}
+            value={sizingDraft ?? sizing.value}
+            onChange={(e) => {
+              setSizingDraft(e.target.value);
+              const value = parseFloat(e.target.value);
+              if (value > 0) onSizingChange({ ...sizing, value });
+            }}
+            onBlur={() => setSizingDraft(null)}
+            disabled={isProcessing}
+            className="h-8 font-mono text-sm"
+          />
+          <span className="text-xs text-muted-foreground w-8">
+            {sizing.mode === 'scale' ? '×' : 'mm'}
+          </span>
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Tamanho final:{' '}
+          <span className="font-mono text-foreground">
+            {dimensions.x.toFixed(1)} × {dimensions.y.toFixed(1)} × {dimensions.z.toFixed(1)} mm
+          </span>
+        </p>
+      </div>
+
+      {/* Orientation and Bed */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <Rotate3d className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">Orientação e Mesa</h3>
+        </div>
+        <label className="flex items-center justify-between gap-2 text-sm text-foreground">
+          <span title="glTF e muitos exportadores usam Y para cima; slicers usam Z">
+            Converter Y-up para Z-up
+          </span>
+          <Switch
+            checked={orientation.upAxis === 'y'}
+            onCheckedChange={(convert) => onOrientationChange({ ...orientation, upAxis: convert ? 'y' : 'z' })}
+            disabled={isProcessing}
+          />
+        </label>
+        <div className="mt-3 grid grid-cols-4 gap-2">
+          {(['x', 'y', 'z'] as const).map((axis) => (
+            <button
+              key={axis}
+              onClick={() => onOrientationChange(rotateOrientation(orientation, axis, 90))}
+              disabled={isProcessing}
+              title={`Girar 90° em torno de ${axis.toUpperCase()}`}
+              className="px-2 py-1.5 rounded-md text-xs transition-all border border-border hover:border-primary/50 bg-secondary text-secondary-foreground"
+            >
+              {axis.toUpperCase()} +90°
+            </button>
+          ))}
+          <button
+            onClick={() => onOrientationChange({ ...orientation, rotation: [0, 0, 0, 1] })}
+            disabled={isProcessing}
+            title="Desfazer rotações manuais"
+            className="px-2 py-1.5 rounded-md text-xs transition-all border border-border hover:border-primary/50 bg-secondary text-secondary-foreground flex items-center justify-center"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onAutoOrient}
+            disabled={isProcessing || isOrienting}
+            title="Escolhe a rotação com menos suporte (principalmente sobre as cores) e menor altura"
+            className="gap-1.5 text-xs"
+          >
+            {isOrienting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+            Auto-orientar
+          </Button>
+          <Button
+            variant={layFlatMode ? 'default' : 'secondary'}
+            size="sm"
+            onClick={() => onLayFlatModeChange(!layFlatMode)}
+            disabled={isProcessing || isOrienting}
+            title="Clique em uma face no visualizador para apoiá-la na mesa"
+            className="gap-1.5 text-xs"
+          >
+            <MousePointerClick className="w-3.5 h-3.5" />
+            Apoiar face
+          </Button>
+        </div>
+        <div className="mt-3 text-xs text-muted-foreground mb-1">Mesa de impressão (mm)</div>
+        <div className="grid grid-cols-4 gap-2">
+          {BED_PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() => onBedSizeChange(preset.size)}
+              title={`${preset.size.width} × ${preset.size.depth} mm`}
+              className={cn(
+                "px-1 py-1.5 rounded-md text-xs transition-all",
+                "border border-border hover:border-primary/50",
+                bedSize.width === preset.size.width && bedSize.depth === preset.size.depth
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-secondary-foreground"
+              )}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={bedSize.width}
+            onChange={(e) => {
+              const width = parseFloat(e.target.value);
+              if (width > 0) onBedSizeChange({ ...bedSize, width });
+            }}
+            className="h-8 font-mono text-sm"
+          />
+          <span className="text-xs text-muted-foreground">×</span>
+          <Input
+            type="number"
+            min={1}
+            value={bedSize.depth}
+            onChange={(e) => {
+              const depth = parseFloat(e.target.value);
+              if (depth > 0) onBedSizeChange({ ...bedSize, depth });
+            }}
+            className="h-8 font-mono text-sm"
+          />
+        </div>
+        <p className={cn("mt-2 text-xs", exceedsBed ? "text-amber-500" : "text-muted-foreground")}>
+          {exceedsBed
+            ? 'O modelo não cabe na mesa — reduza o tamanho ou gire-o'
+            : 'Centralizado na mesa, apoiado em Z=0'}
+        </p>
+      </div>
+
       {/* Detail Level */}
       <div>
         <div className="flex items-center gap-2 mb-3">
@@ -122,6 +517,37 @@ export function ControlPanel({
           </span> triângulos
           {exceedsLimit && " (limite excedido!)"}
         </p>
+        {willSubdivide && (
+          <>
+            <label className="mt-3 flex items-center justify-between gap-2 text-sm text-foreground">
+              <span title="Subdivide apenas onde a cor da textura varia, em vez de toda a malha">
+                Subdivisão adaptativa
+              </span>
+              <Switch
+                checked={subdivisionMode === 'adaptive'}
+                onCheckedChange={(adaptive) => onSubdivisionModeChange(adaptive ? 'adaptive' : 'uniform')}
+                disabled={isProcessing}
+              />
+            </label>
+            {subdivisionMode === 'adaptive' && (
+              <div className="mt-3">
+                <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                  <span>Aresta máxima</span>
+                  <span className="font-mono text-foreground">{maxEdgeLength.toFixed(1)} mm</span>
+                </div>
+                <Slider
+                  value={[maxEdgeLength]}
+                  onValueChange={([value]) => onMaxEdgeLengthChange(value)}
+                  min={0.2}
+                  max={5}
+                  step={0.1}
+                  disabled={isProcessing}
+                  className="py-2"
+                />
+              </div>
+            )}
+          </>
+        )}
       </div>
 
       {/* Number of Colors */}
@@ -148,6 +574,189 @@ export function ControlPanel({
         </div>
       </div>
 
+      {/* Texture Sampling */}
+      <div>
+        <h3 className="text-sm font-medium text-foreground mb-3">Amostragem da Textura</h3>
+        <div className="grid grid-cols-4 gap-2">
+          {SAMPLING_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onSamplingModeChange(option.value)}
+              disabled={isProcessing}
+              title={option.description}
+              className={cn(
+                "px-2 py-2 rounded-md text-xs transition-all",
+                "border border-border hover:border-primary/50",
+                samplingMode === option.value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-secondary-foreground"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {SAMPLING_OPTIONS.find(o => o.value === samplingMode)?.description}
+        </p>
+        <label className="mt-3 flex items-center justify-between gap-2 text-sm text-foreground">
+          <span title="Divide triângulos onde a cor da textura muda, mantendo logos e textos nítidos">
+            Recortar nas bordas de cor
+          </span>
+          <Switch
+            checked={splitColorBoundaries}
+            onCheckedChange={onSplitColorBoundariesChange}
+            disabled={isProcessing}
+          />
+        </label>
+      </div>
+
+      {/* Palette Source */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-foreground">Filamentos</h3>
+          <button
+            onClick={onOpenFilamentLibrary}
+            className="text-xs text-primary hover:underline"
+          >
+            Gerenciar biblioteca
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {PALETTE_MODE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onPaletteModeChange(option.value)}
+              disabled={isProcessing}
+              className={cn(
+                "px-2 py-2 rounded-md text-sm transition-all",
+                "border border-border hover:border-primary/50",
+                paletteMode === option.value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-secondary-foreground"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {PALETTE_MODE_OPTIONS.find(o => o.value === paletteMode)?.description}
+        </p>
+      </div>
+
+      {/* Color Space */}
+      <div>
+        <h3 className="text-sm font-medium text-foreground mb-3">Espaço de Cor</h3>
+        <div className="grid grid-cols-4 gap-2">
+          {COLOR_SPACE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onColorSpaceChange(option.value)}
+              disabled={isProcessing}
+              title={option.description}
+              className={cn(
+                "px-2 py-2 rounded-md text-xs transition-all",
+                "border border-border hover:border-primary/50",
+                colorSpace === option.value
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-secondary-foreground"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {COLOR_SPACE_OPTIONS.find(o => o.value === colorSpace)?.description}
+        </p>
+        <label className="mt-3 flex items-center justify-between gap-2 text-sm text-foreground">
+          <span>Refinar paleta (k-means)</span>
+          <Switch
+            checked={refinePalette}
+            onCheckedChange={onRefinePaletteChange}
+            disabled={isProcessing}
+          />
+        </label>
+      </div>
+
+      {/* Region Cleanup */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-foreground">Limpeza de Regiões</h3>
+          <span className="font-mono text-sm text-primary">
+            {minRegionArea > 0 ? `${minRegionArea.toFixed(1)} mm²` : 'Desligada'}
+          </span>
+        </div>
+        <Slider
+          value={[minRegionArea]}
+          onValueChange={([value]) => onMinRegionAreaChange(value)}
+          min={0}
+          max={25}
+          step={0.5}
+          disabled={isProcessing}
+          className="py-2"
+        />
+        <p className="mt-2 text-xs text-muted-foreground">
+          Ilhas de cor menores que a área mínima assumem a cor vizinha dominante, evitando trocas de filamento desnecessárias
+        </p>
+        <label className="mt-3 flex items-center justify-between gap-2 text-sm text-foreground">
+          <span title="Troca a cor de triângulos isolados pela cor da maioria dos vizinhos">
+            Suavizar bordas (filtro de maioria)
+          </span>
+          <Switch
+            checked={smoothRegions}
+            onCheckedChange={onSmoothRegionsChange}
+            disabled={isProcessing}
+          />
+        </label>
+
+        <div className="mt-4">
+          <div className="text-xs text-muted-foreground mb-2">Bico (largura mínima das regiões)</div>
+          <div className="grid grid-cols-5 gap-2">
+            {NOZZLE_OPTIONS.map((diameter) => (
+              <button
+                key={diameter}
+                onClick={() => onNozzleDiameterChange(diameter)}
+                disabled={isProcessing}
+                className={cn(
+                  "px-2 py-2 rounded-md text-xs transition-all",
+                  "border border-border hover:border-primary/50",
+                  nozzleDiameter === diameter
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-secondary text-secondary-foreground"
+                )}
+              >
+                {diameter > 0 ? `${diameter} mm` : 'Não'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {nozzleDiameter > 0 && (
+          <label className="mt-3 flex items-center justify-between gap-2 text-sm text-foreground">
+            <span title="Regiões mais estreitas que o bico assumem a cor vizinha dominante">
+              Mesclar regiões finas
+            </span>
+            <Switch
+              checked={mergeThinRegions}
+              onCheckedChange={onMergeThinRegionsChange}
+              disabled={isProcessing}
+            />
+          </label>
+        )}
+
+        <label className="mt-4 flex items-center justify-between gap-2 text-sm text-foreground">
+          <span title="Solda vértices, corrige a orientação das faces, fecha furos e remove faces degeneradas, duplicadas e não-manifold">
+            Reparar malha para impressão
+          </span>
+          <Switch
+            checked={repairMesh}
+            onCheckedChange={onRepairMeshChange}
+            disabled={isProcessing}
+          />
+        </label>
+      </div>
+
       {/* Process Button */}
       <Button
         onClick={onProcess}
@@ -200,6 +809,71 @@ export function ControlPanel({
             </div>
           )}
 
+          {regionCounts && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Regiões de cor:</span>
+              <span className="font-mono text-foreground">
+                {regionCounts.before.toLocaleString()} → {regionCounts.after.toLocaleString()}
+              </span>
+            </div>
+          )}
+
+          {repairStats && (
+            <div
+              className="text-sm space-y-1"
+              title={`${repairStats.filledHoles.toLocaleString()} furos fechados, ${repairStats.flippedFaces.toLocaleString()} faces reorientadas`}
+            >
+              {([
+                ['Bordas abertas', 'boundaryEdges'],
+                ['Arestas não-manifold', 'nonManifoldEdges'],
+                ['Cascas', 'shells'],
+              ] as const).map(([label, key]) => (
+                <div key={key} className="flex items-center justify-between">
+                  <span className="text-muted-foreground">{label}:</span>
+                  <span className="font-mono text-foreground">
+                    {repairStats.before[key].toLocaleString()} → {repairStats.after[key].toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {thinRegions && thinRegions.count > 0 && (
+            <div className="p-3 rounded-md border border-amber-500/40 bg-amber-500/10 space-y-2">
+              <div className="flex items-start gap-2 text-sm text-amber-500">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  {thinRegions.merged > 0
+                    ? `${thinRegions.merged.toLocaleString()} de ${thinRegions.count.toLocaleString()} regiões mais finas que ${thinRegions.minWidth} mm foram mescladas`
+                    : `${thinRegions.count.toLocaleString()} regiões mais finas que ${thinRegions.minWidth} mm (destacadas no modelo)`}
+                </span>
+              </div>
+              {thinRegions.merged === 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onMergeThinRegions}
+                  disabled={isProcessing}
+                  className="w-full"
+                >
+                  Mesclar regiões finas
+                </Button>
+              )}
+            </div>
+          )}
+
+          {uvDistortion && (
+            <div
+              className="flex items-center justify-between text-sm"
+              title="Deslocamento das coordenadas de textura causado pela simplificação (% da largura da textura)"
+            >
+              <span className="text-muted-foreground">Distorção UV:</span>
+              <span className="font-mono text-foreground">
+                {(uvDistortion.mean * 100).toFixed(2)}% (máx {(uvDistortion.max * 100).toFixed(1)}%)
+              </span>
+            </div>
+          )}
+
           {/* Color Palette */}
           <div>
             <h4 className="text-sm font-medium text-foreground mb-3">Paleta de Cores</h4>
@@ -215,8 +889,11 @@ export function ControlPanel({
                   />
                   <div className="flex-1 min-w-0">
                     <div className="flex justify-between items-center">
-                      <span className="font-mono text-xs text-muted-foreground">
-                        {rgbToHex(stat.color).toUpperCase()}
+                      <span className="text-xs text-muted-foreground truncate">
+                        <span className="font-mono">{rgbToHex(stat.color).toUpperCase()}</span>
+                        {findFilament(stat.color) && (
+                          <span className="ml-2 text-foreground">{getFilamentDisplayName(findFilament(stat.color)!)}</span>
+                        )}
                       </span>
                       <span className="text-sm text-foreground">
                         {stat.percentage.toFixed(1)}%
@@ -237,9 +914,36 @@ export function ControlPanel({
             </div>
           </div>
 
+          {/* Export Mode */}
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-3">Formato do 3MF</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_MODE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => onExportModeChange(option.value)}
+                  title={option.description}
+                  className={cn(
+                    "px-3 py-2 rounded-md text-sm transition-all",
+                    "border border-border hover:border-primary/50",
+                    exportMode === option.value
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-secondary text-secondary-foreground"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              {EXPORT_MODE_OPTIONS.find((option) => option.value === exportMode)?.description}
+            </p>
+          </div>
+
           {/* Export Button */}
           <Button
             onClick={onExport}
+            disabled={isProcessing}
             className="w-full glow-primary"
             size="lg"
           >
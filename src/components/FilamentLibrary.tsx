@@ -0,0 +1,106 @@
+import { Filament } from '@/lib/filamentLibrary';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Cylinder, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface FilamentLibraryProps {
+  filaments: Filament[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: Partial<Filament>) => void;
+  onRemove: (id: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export function FilamentLibrary({ filaments, onAdd, onUpdate, onRemove, onReset, onClose }: FilamentLibraryProps) {
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card border border-border rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Cylinder className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Biblioteca de Filamentos</h2>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          <div className="grid grid-cols-[40px,1fr,1fr,80px,64px,40px] gap-2 px-1 text-xs text-muted-foreground">
+            <span>Cor</span>
+            <span>Nome</span>
+            <span>Marca</span>
+            <span>Material</span>
+            <span>Slot</span>
+            <span />
+          </div>
+
+          {filaments.map((filament) => (
+            <div
+              key={filament.id}
+              className="grid grid-cols-[40px,1fr,1fr,80px,64px,40px] gap-2 items-center p-1 bg-secondary/50 rounded-md"
+            >
+              <input
+                type="color"
+                value={filament.color}
+                onChange={(e) => onUpdate(filament.id, { color: e.target.value.toUpperCase() })}
+                className="w-10 h-10 rounded-md border border-border bg-transparent cursor-pointer"
+                title={filament.color}
+              />
+              <Input
+                value={filament.name}
+                onChange={(e) => onUpdate(filament.id, { name: e.target.value })}
+              />
+              <Input
+                value={filament.brand}
+                onChange={(e) => onUpdate(filament.id, { brand: e.target.value })}
+              />
+              <Input
+                value={filament.material}
+                onChange={(e) => onUpdate(filament.id, { material: e.target.value })}
+              />
+              <Input
+                type="number"
+                min={1}
+                value={filament.slot ?? ''}
+                onChange={(e) => onUpdate(filament.id, {
+                  slot: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : undefined,
+                })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(filament.id)}
+                className="text-muted-foreground hover:text-destructive"
+                title="Remover filamento"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          {filaments.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Nenhum filamento cadastrado
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-4 border-t border-border">
+          <Button variant="ghost" size="sm" onClick={onReset} className="gap-2 text-muted-foreground">
+            <RotateCcw className="w-4 h-4" />
+            Restaurar padrão
+          </Button>
+          <Button variant="outline" size="sm" onClick={onAdd} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Adicionar filamento
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
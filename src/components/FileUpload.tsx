@@ -1,6 +1,7 @@
 import { useCallback, useState } from 'react';
 import { Upload, File, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getFilePath, withRelativePath } from '@/lib/fileResolver';
 
 interface FileUploadProps {
   onFilesSelected: (files: FileList | File[]) => void;
@@ -8,6 +9,43 @@ interface FileUploadProps {
   disabled?: boolean;
 }
 
+// Files of a dropped directory entry, recursively. Each keeps its path inside the dropped folder,
+// so models can reference textures in subfolders
+async function readEntryFiles(entry: FileSystemEntry, parentPath = ''): Promise<File[]> {
+  const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [parentPath ? withRelativePath(file, path) : file];
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns the listing in batches until it comes back empty
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(child => readEntryFiles(child, path)));
+    return nested.flat();
+  }
+
+  return [];
+}
+
+async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries have to be taken synchronously, before the drop event handler returns
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+  const nested = await Promise.all(entries.map(entry => readEntryFiles(entry)));
+  return nested.flat();
+}
+
 export function FileUpload({ onFilesSelected, loading, disabled }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -29,16 +67,16 @@ export function FileUpload({ onFilesSelected, loading, disabled }: FileUploadPro
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
     
     if (disabled) return;
     
-    const files = e.dataTransfer.files;
-    if (files && files.length > 0) {
-      setSelectedFiles(Array.from(files));
+    const files = await getDroppedFiles(e.dataTransfer);
+    if (files.length > 0) {
+      setSelectedFiles(files);
       onFilesSelected(files);
     }
   }, [disabled, onFilesSelected]);
@@ -74,7 +112,7 @@ export function FileUpload({ onFilesSelected, loading, disabled }: FileUploadPro
         <input
           type="file"
           multiple
-          accept=".glb,.gltf,.obj,.mtl,.png,.jpg,.jpeg"
+          accept=".zip,.glb,.gltf,.bin,.obj,.mtl,.ply,.stl,.3mf,.png,.jpg,.jpeg,.webp"
           onChange={handleFileInput}
           disabled={disabled || loading}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
@@ -96,15 +134,20 @@ export function FileUpload({ onFilesSelected, loading, disabled }: FileUploadPro
               {loading ? 'Carregando modelo...' : 'Arraste seu modelo 3D aqui'}
             </p>
             <p className="text-sm text-muted-foreground mt-1">
-              GLB, GLTF, ou OBJ + MTL + Textura
+              GLB, GLTF + BIN + texturas, OBJ + MTL + Textura, PLY, STL ou 3MF (arquivos, pasta ou ZIP)
             </p>
           </div>
           
           <div className="flex gap-2 flex-wrap justify-center text-xs text-muted-foreground">
+            <span className="px-2 py-1 bg-secondary rounded">.zip</span>
             <span className="px-2 py-1 bg-secondary rounded">.glb</span>
             <span className="px-2 py-1 bg-secondary rounded">.gltf</span>
+            <span className="px-2 py-1 bg-secondary rounded">.bin</span>
             <span className="px-2 py-1 bg-secondary rounded">.obj</span>
             <span className="px-2 py-1 bg-secondary rounded">.mtl</span>
+            <span className="px-2 py-1 bg-secondary rounded">.ply</span>
+            <span className="px-2 py-1 bg-secondary rounded">.stl</span>
+            <span className="px-2 py-1 bg-secondary rounded">.3mf</span>
             <span className="px-2 py-1 bg-secondary rounded">.png/.jpg</span>
           </div>
         </div>
@@ -128,7 +171,7 @@ export function FileUpload({ onFilesSelected, loading, disabled }: FileUploadPro
                 className="flex items-center gap-2 px-3 py-1.5 bg-secondary rounded-md text-sm"
               >
                 <File className="w-4 h-4 text-primary" />
-                <span className="text-foreground">{file.name}</span>
+                <span className="text-foreground">{getFilePath(file)}</span>
               </div>
             ))}
           </div>
@@ -1,21 +1,33 @@
 import { useRef, useMemo, Suspense } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import { Canvas, ThreeEvent, useFrame } from '@react-three/fiber';
 import { OrbitControls, Environment, Center, Grid } from '@react-three/drei';
 import * as THREE from 'three';
 import { ProcessedMesh } from '@/lib/meshProcessor';
 import { rgbToHex } from '@/lib/colorQuantization';
+import { cn } from '@/lib/utils';
+
+// Longest model dimension on screen, in scene units (the camera and controls are set up for it)
+const VIEW_SIZE = 3;
+
+// The scene is shown in print axes (Z-up); the viewer itself is Y-up
+const PRINT_TO_VIEW_ROTATION: [number, number, number] = [-Math.PI / 2, 0, 0];
+
+// Pointer travel (px) above which a click is treated as an orbit drag
+const CLICK_TOLERANCE = 4;
 
 interface OriginalModelProps {
   object: THREE.Object3D;
+  /** Source to print axes and mm, so the original matches the processed meshes */
+  matrix: THREE.Matrix4;
 }
 
-function OriginalModel({ object }: OriginalModelProps) {
+function OriginalModel({ object, matrix }: OriginalModelProps) {
   const clonedScene = useMemo(() => {
     return object.clone();
   }, [object]);
 
   return (
-    <group>
+    <group matrix={matrix} matrixAutoUpdate={false}>
       <primitive object={clonedScene} />
     </group>
   );
@@ -23,9 +35,10 @@ function OriginalModel({ object }: OriginalModelProps) {
 
 interface ProcessedModelProps {
   meshes: ProcessedMesh[];
+  highlightGeometry?: THREE.BufferGeometry;
 }
 
-function ProcessedModel({ meshes }: ProcessedModelProps) {
+function ProcessedModel({ meshes, highlightGeometry }: ProcessedModelProps) {
   return (
     <group>
       {meshes.map((mesh, idx) => (
@@ -36,6 +49,20 @@ function ProcessedModel({ meshes }: ProcessedModelProps) {
           />
         </mesh>
       ))}
+      {highlightGeometry && (
+        // Drawn over the colored faces (polygon offset) so flagged areas stand out
+        <mesh geometry={highlightGeometry} renderOrder={1}>
+          <meshBasicMaterial
+            color="#ff00ff"
+            transparent
+            opacity={0.7}
+            depthWrite={false}
+            polygonOffset
+            polygonOffsetFactor={-1}
+            polygonOffsetUnits={-1}
+          />
+        </mesh>
+      )}
     </group>
   );
 }
@@ -60,18 +87,51 @@ function LoadingFallback() {
 interface ModelViewerProps {
   originalObject?: THREE.Object3D;
   processedMeshes?: ProcessedMesh[];
+  /** Faces to highlight on the processed model (e.g. regions too thin to print) */
+  highlightGeometry?: THREE.BufferGeometry;
+  /** Transform applied to the original object (orientation and scale to mm) */
+  modelMatrix?: THREE.Matrix4;
+  /** Model size in print axes (mm); the view is normalized to it and the grid drawn in real millimeters */
+  dimensions?: { x: number; y: number; z: number };
   showProcessed?: boolean;
+  /** When set, clicking a face reports its outward normal in print axes */
+  onFacePick?: (normal: THREE.Vector3) => void;
   className?: string;
 }
 
 export function ModelViewer({ 
   originalObject, 
   processedMeshes, 
+  highlightGeometry,
+  modelMatrix,
+  dimensions,
   showProcessed = false,
+  onFacePick,
   className 
 }: ModelViewerProps) {
+  const printGroupRef = useRef<THREE.Group>(null);
+  const longest = dimensions ? Math.max(dimensions.x, dimensions.y, dimensions.z) : 0;
+  const viewScale = longest > 0 ? VIEW_SIZE / longest : 1;
+  // Grid cell: the power of ten (mm) giving roughly 10 cells across the model
+  const gridStep = longest > 0 ? 10 ** Math.floor(Math.log10(longest / 10)) : 0.5;
+  // The model is centered, so the bed (grid) sits half its height below the origin
+  const bedY = dimensions ? -(dimensions.z * viewScale) / 2 : -1.5;
+  const identity = useMemo(() => new THREE.Matrix4(), []);
+  // <Center> only re-measures when this changes
+  const centerKey = `${showProcessed}|${modelMatrix?.elements.join(',')}|${processedMeshes?.length}`;
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    // Only the nearest hit counts
+    event.stopPropagation();
+    if (!onFacePick || !event.face || event.delta > CLICK_TOLERANCE || !printGroupRef.current) return;
+
+    const normalMatrix = new THREE.Matrix3().getNormalMatrix(event.object.matrixWorld);
+    const worldNormal = event.face.normal.clone().applyMatrix3(normalMatrix).normalize();
+    onFacePick(worldNormal.transformDirection(printGroupRef.current.matrixWorld.clone().invert()));
+  };
+
   return (
-    <div className={className}>
+    <div className={cn('relative', onFacePick && 'cursor-crosshair', className)}>
       <Canvas
         camera={{ position: [3, 2, 3], fov: 50 }}
         gl={{ antialias: true, preserveDrawingBuffer: true }}
@@ -83,12 +143,17 @@ export function ModelViewer({
         <directionalLight position={[-5, 3, -5]} intensity={0.5} />
         
         <Suspense fallback={<LoadingFallback />}>
-          <Center>
-            <group>
+          <Center cacheKey={centerKey}>
+            <group
+              ref={printGroupRef}
+              scale={viewScale}
+              rotation={PRINT_TO_VIEW_ROTATION}
+              onClick={onFacePick ? handleClick : undefined}
+            >
               {showProcessed && processedMeshes ? (
-                <ProcessedModel meshes={processedMeshes} />
+                <ProcessedModel meshes={processedMeshes} highlightGeometry={highlightGeometry} />
               ) : originalObject ? (
-                <OriginalModel object={originalObject} />
+                <OriginalModel object={originalObject} matrix={modelMatrix ?? identity} />
               ) : (
                 <LoadingFallback />
               )}
@@ -97,12 +162,12 @@ export function ModelViewer({
         </Suspense>
 
         <Grid
-          position={[0, -1.5, 0]}
+          position={[0, bedY, 0]}
           args={[10, 10]}
-          cellSize={0.5}
+          cellSize={gridStep * viewScale}
           cellThickness={0.5}
           cellColor="hsl(220, 20%, 25%)"
-          sectionSize={2}
+          sectionSize={gridStep * 10 * viewScale}
           sectionThickness={1}
           sectionColor="hsl(200, 100%, 40%)"
           fadeDistance={15}
@@ -119,6 +184,18 @@ export function ModelViewer({
         
         <Environment preset="studio" />
       </Canvas>
+
+      {onFacePick && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded bg-primary/90 text-xs text-primary-foreground pointer-events-none">
+          Clique em uma face para apoiá-la na mesa
+        </div>
+      )}
+
+      {dimensions && longest > 0 && (
+        <div className="absolute bottom-2 left-2 px-2 py-1 rounded bg-background/70 text-xs font-mono text-muted-foreground pointer-events-none">
+          {dimensions.x.toFixed(1)} × {dimensions.y.toFixed(1)} × {dimensions.z.toFixed(1)} mm • grade {gridStep} mm
+        </div>
+      )}
     </div>
   );
 }
@@ -1,10 +1,12 @@
 import { ProcessingProgress } from '@/lib/meshProcessor';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, Scissors, Palette, Layers, Box } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Scissors, Palette, Layers, Box, X, Spline, Eraser, Wrench, Download } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ProgressBarProps {
   progress: ProcessingProgress;
+  onCancel?: () => void;
   className?: string;
 }
 
@@ -13,8 +15,12 @@ const STAGE_ICONS = {
   subdividing: Scissors,
   sampling: Palette,
   quantizing: Palette,
+  splitting: Spline,
+  cleaning: Eraser,
+  repairing: Wrench,
   grouping: Layers,
   building: Box,
+  exporting: Download,
 };
 
 const STAGE_LABELS = {
@@ -22,11 +28,15 @@ const STAGE_LABELS = {
   subdividing: 'Subdivisão',
   sampling: 'Amostragem',
   quantizing: 'Quantização',
+  splitting: 'Recorte por cor',
+  cleaning: 'Limpeza de regiões',
+  repairing: 'Reparo da malha',
   grouping: 'Agrupamento',
   building: 'Construção',
+  exporting: 'Exportação',
 };
 
-export function ProgressBar({ progress, className }: ProgressBarProps) {
+export function ProgressBar({ progress, onCancel, className }: ProgressBarProps) {
   const Icon = STAGE_ICONS[progress.stage];
 
   return (
@@ -42,6 +52,17 @@ export function ProgressBar({ progress, className }: ProgressBarProps) {
           </div>
           <Progress value={progress.progress} className="h-2" />
         </div>
+        {onCancel && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onCancel}
+            className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+            title="Cancelar"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
       </div>
       <p className="text-xs text-muted-foreground flex items-center gap-2">
         <Loader2 className="w-3 h-3 animate-spin" />
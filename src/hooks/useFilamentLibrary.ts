@@ -0,0 +1,63 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Filament, DEFAULT_FILAMENTS } from '@/lib/filamentLibrary';
+
+const STORAGE_KEY = 'filament-library';
+
+function loadLibrary(): Filament[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed as Filament[];
+    }
+  } catch (err) {
+    console.warn('[useFilamentLibrary] Could not read stored library:', err);
+  }
+  return DEFAULT_FILAMENTS;
+}
+
+// Filament inventory persisted in localStorage
+export function useFilamentLibrary() {
+  const [filaments, setFilaments] = useState<Filament[]>(loadLibrary);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(filaments));
+    } catch (err) {
+      console.warn('[useFilamentLibrary] Could not save library:', err);
+    }
+  }, [filaments]);
+
+  const addFilament = useCallback(() => {
+    setFilaments(prev => [
+      ...prev,
+      {
+        id: `filament-${Date.now()}`,
+        name: 'Novo filamento',
+        brand: '',
+        color: '#808080',
+        material: 'PLA',
+      },
+    ]);
+  }, []);
+
+  const updateFilament = useCallback((id: string, changes: Partial<Filament>) => {
+    setFilaments(prev => prev.map(f => (f.id === id ? { ...f, ...changes } : f)));
+  }, []);
+
+  const removeFilament = useCallback((id: string) => {
+    setFilaments(prev => prev.filter(f => f.id !== id));
+  }, []);
+
+  const resetLibrary = useCallback(() => {
+    setFilaments(DEFAULT_FILAMENTS);
+  }, []);
+
+  return {
+    filaments,
+    addFilament,
+    updateFilament,
+    removeFilament,
+    resetLibrary,
+  };
+}
@@ -3,13 +3,22 @@ import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
 import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
 import { MeshSource } from '@/lib/colorExtractor';
+import { ModelFormat } from '@/lib/modelTransform';
+import { createFileResolver, getFilePath } from '@/lib/fileResolver';
+import { extractZipFiles, isZipFile } from '@/lib/zipArchive';
+import { readVisCamColors } from '@/lib/stlColors';
+import { import3MF } from '@/lib/import3MF';
 
 export interface LoadedModel {
   sources: MeshSource[];
   originalObject: THREE.Object3D;
   triangleCount: number;
   name: string;
+  /** Source format (drives unit detection) */
+  format: ModelFormat;
   debugInfo: {
     meshCount: number;
     materialCount: number;
@@ -18,6 +27,40 @@ export interface LoadedModel {
   };
 }
 
+/** Several models were found in the upload; the user picks which one to convert */
+export interface ModelChoice {
+  candidates: File[];
+  /** Every uploaded file (archives already unpacked), kept for the companion files */
+  files: File[];
+}
+
+const MODEL_EXTENSIONS = ['.glb', '.gltf', '.obj', '.ply', '.stl', '.3mf'];
+
+// Material of meshes without colors of their own (plain STL, uncolored PLY)
+const PLAIN_MESH_COLOR = 0xcccccc;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+const hasExtension = (file: File, extensions: string[]) =>
+  extensions.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+const getFolder = (file: File) => {
+  const path = getFilePath(file);
+  return path.slice(0, path.lastIndexOf('/') + 1);
+};
+
+// Companion of `main` among `files`: same folder and base name first, then same folder, then anywhere
+function findCompanion(main: File, files: File[], extensions: string[]): File | undefined {
+  const candidates = files.filter((f) => hasExtension(f, extensions));
+  const folder = getFolder(main);
+  const baseName = main.name.replace(/\.[^/.]+$/, '').toLowerCase();
+  const sameFolder = candidates.filter((f) => getFolder(f) === folder);
+  return (
+    sameFolder.find((f) => f.name.replace(/\.[^/.]+$/, '').toLowerCase() === baseName) ??
+    sameFolder[0] ??
+    candidates[0]
+  );
+}
+
 function countTriangles(geometry: THREE.BufferGeometry): number {
   const index = geometry.getIndex();
   const pos = geometry.getAttribute('position');
@@ -73,20 +116,61 @@ function extractMeshSources(scene: THREE.Object3D): MeshSource[] {
   return sources;
 }
 
+// Model with a single mesh (PLY, STL). Vertex colors, when present, are what gets sampled;
+// otherwise the whole mesh takes the plain material color
+function createSingleMeshModel(geometry: THREE.BufferGeometry, file: File, format: ModelFormat): LoadedModel {
+  const colorAttr = geometry.getAttribute('color');
+  if (colorAttr && colorAttr.count !== geometry.getAttribute('position').count) {
+    console.warn(`[useModelLoader] Ignoring ${format.toUpperCase()} colors: ${colorAttr.count} colors for ${geometry.getAttribute('position').count} vertices`);
+    geometry.deleteAttribute('color');
+  }
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals();
+
+  const hasVertexColors = !!geometry.getAttribute('color');
+  const material = new THREE.MeshStandardMaterial({
+    color: hasVertexColors ? 0xffffff : PLAIN_MESH_COLOR,
+    vertexColors: hasVertexColors,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = file.name.replace(/\.[^/.]+$/, '');
+
+  const sources = extractMeshSources(mesh);
+  const triangleCount = countTriangles(geometry);
+
+  console.log(`[useModelLoader] Loaded ${format.toUpperCase()}: ${triangleCount} triangles, vertex colors: ${hasVertexColors}`);
+
+  return {
+    sources,
+    originalObject: mesh,
+    triangleCount,
+    name: mesh.name,
+    format,
+    debugInfo: {
+      meshCount: 1,
+      materialCount: 1,
+      texturedMaterials: 0,
+      hasVertexColors,
+    },
+  };
+}
+
 export function useModelLoader() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [model, setModel] = useState<LoadedModel | null>(null);
+  const [modelChoice, setModelChoice] = useState<ModelChoice | null>(null);
 
-  const loadGLB = useCallback(async (file: File): Promise<LoadedModel> => {
+  // `companionFiles` are the other dropped files; a .gltf fetches its .bin buffers and textures
+  // from them by the relative paths it references
+  const loadGLB = useCallback(async (file: File, companionFiles: File[] = []): Promise<LoadedModel> => {
     return new Promise((resolve, reject) => {
-      const loader = new GLTFLoader();
-      const url = URL.createObjectURL(file);
+      const resolver = createFileResolver([file, ...companionFiles]);
+      const loader = new GLTFLoader(resolver.manager);
 
       loader.load(
-        url,
+        resolver.getLoadPath(file),
         (gltf) => {
-          URL.revokeObjectURL(url);
+          resolver.dispose();
 
           const sources = extractMeshSources(gltf.scene);
           
@@ -122,6 +206,7 @@ export function useModelLoader() {
             originalObject: gltf.scene,
             triangleCount: totalTriangles,
             name: file.name.replace(/\.[^/.]+$/, ''),
+            format: 'gltf',
             debugInfo: {
               meshCount: sources.length,
               materialCount,
@@ -132,143 +217,216 @@ export function useModelLoader() {
         },
         undefined,
         (err) => {
-          URL.revokeObjectURL(url);
+          resolver.dispose();
           reject(err);
         }
       );
     });
   }, []);
 
-  const loadOBJ = useCallback(async (objFile: File, mtlFile?: File, textureFile?: File): Promise<LoadedModel> => {
-    return new Promise(async (resolve, reject) => {
-      const objLoader = new OBJLoader();
-      const objUrl = URL.createObjectURL(objFile);
+  // Materials come from the MTL libraries named by the OBJ's `mtllib` lines (or any dropped .mtl
+  // when none resolves); their map_Kd textures are resolved by path among `companionFiles`.
+  // `textureFile` is only applied when the MTL names no texture.
+  const loadOBJ = useCallback(async (objFile: File, companionFiles: File[] = [], textureFile?: File): Promise<LoadedModel> => {
+    const resolver = createFileResolver([objFile, ...companionFiles]);
+
+    try {
+      const text = await objFile.text();
+      const objLoader = new OBJLoader(resolver.manager);
+
+      const libraryPaths = Array.from(text.matchAll(/^mtllib\s+(.+?)\s*$/gm), (match) => match[1]);
+      const objFolder = getFilePath(objFile).slice(0, getFilePath(objFile).lastIndexOf('/') + 1);
+      let mtlFiles = libraryPaths
+        .map((path) => resolver.findFile(objFolder + path))
+        .filter((f): f is File => !!f);
+      if (mtlFiles.length === 0) {
+        const fallback = findCompanion(objFile, companionFiles, ['.mtl']);
+        mtlFiles = fallback ? [fallback] : [];
+      }
 
       let materials: MTLLoader.MaterialCreator | null = null;
+      for (const mtlFile of mtlFiles) {
+        try {
+          const creator = await new MTLLoader(resolver.manager).loadAsync(resolver.getLoadPath(mtlFile));
+          if (!materials) {
+            materials = creator;
+          } else {
+            // Further libraries are merged in; their textures resolve by file name
+            materials.setMaterials({ ...materials.materialsInfo, ...creator.materialsInfo });
+          }
+        } catch (e) {
+          console.warn('Failed to load MTL:', e);
+        }
+      }
+
+      const mtlNamesTexture = materials
+        ? Object.values(materials.materialsInfo).some((info) => !!info.map_kd)
+        : false;
+      if (materials) {
+        materials.preload();
+        objLoader.setMaterials(materials);
+      }
 
-      // Load MTL if provided
-      if (mtlFile) {
-        const mtlLoader = new MTLLoader();
-        const mtlUrl = URL.createObjectURL(mtlFile);
+      const obj = objLoader.parse(text);
 
+      // Load separate texture if provided and the MTL has none of its own
+      if (textureFile && !mtlNamesTexture) {
         try {
-          materials = await new Promise<MTLLoader.MaterialCreator>((res, rej) => {
-            mtlLoader.load(mtlUrl, res, undefined, rej);
+          const texture = await new THREE.TextureLoader(resolver.manager).loadAsync(resolver.getLoadPath(textureFile));
+          texture.colorSpace = THREE.SRGBColorSpace;
+
+          // Apply texture to all materials (Kd still tints it)
+          obj.traverse((child) => {
+            if (child instanceof THREE.Mesh) {
+              const childMaterials = Array.isArray(child.material) ? child.material : [child.material];
+              for (const material of childMaterials as THREE.MeshStandardMaterial[]) {
+                material.map = texture;
+                material.needsUpdate = true;
+              }
+            }
           });
-          materials.preload();
-          objLoader.setMaterials(materials);
         } catch (e) {
-          console.warn('Failed to load MTL:', e);
-        } finally {
-          URL.revokeObjectURL(mtlUrl);
+          console.warn('Failed to load texture:', e);
         }
       }
 
-      objLoader.load(
-        objUrl,
-        async (obj) => {
-          URL.revokeObjectURL(objUrl);
+      // MTL textures load in the background; colors are sampled from them right after this
+      await resolver.whenIdle();
 
-          // Load separate texture if provided
-          if (textureFile) {
-            const textureLoader = new THREE.TextureLoader();
-            const textureUrl = URL.createObjectURL(textureFile);
-            
-            try {
-              const texture = await new Promise<THREE.Texture>((res, rej) => {
-                textureLoader.load(textureUrl, res, undefined, rej);
-              });
-              
-              // Apply texture to all materials
-              obj.traverse((child) => {
-                if (child instanceof THREE.Mesh) {
-                  const material = child.material as THREE.MeshStandardMaterial;
-                  if (material) {
-                    material.map = texture;
-                    material.needsUpdate = true;
-                  }
-                }
-              });
-            } catch (e) {
-              console.warn('Failed to load texture:', e);
-            } finally {
-              URL.revokeObjectURL(textureUrl);
-            }
-          }
+      const sources = extractMeshSources(obj);
 
-          const sources = extractMeshSources(obj);
+      if (sources.length === 0) {
+        throw new Error('No mesh found in OBJ file');
+      }
 
-          if (sources.length === 0) {
-            reject(new Error('No mesh found in OBJ file'));
-            return;
-          }
+      // Calculate totals
+      let totalTriangles = 0;
+      let materialCount = 0;
+      let texturedMaterials = 0;
+      let hasVertexColors = false;
+
+      for (const source of sources) {
+        totalTriangles += countTriangles(source.geometry);
+        materialCount += source.materials.length;
+        
+        for (const mat of source.materials) {
+          const stdMat = mat as THREE.MeshStandardMaterial;
+          if (stdMat.map) texturedMaterials++;
+        }
+        
+        if (source.geometry.getAttribute('color')) {
+          hasVertexColors = true;
+        }
+      }
 
-          // Calculate totals
-          let totalTriangles = 0;
-          let materialCount = 0;
-          let texturedMaterials = 0;
-          let hasVertexColors = false;
+      console.log(`[useModelLoader] Loaded OBJ: ${sources.length} meshes, ${totalTriangles} triangles, ${mtlFiles.length} MTL, ${texturedMaterials} textured`);
+
+      return {
+        sources,
+        originalObject: obj,
+        triangleCount: totalTriangles,
+        name: objFile.name.replace(/\.[^/.]+$/, ''),
+        format: 'obj',
+        debugInfo: {
+          meshCount: sources.length,
+          materialCount,
+          texturedMaterials,
+          hasVertexColors,
+        },
+      };
+    } finally {
+      resolver.dispose();
+    }
+  }, []);
 
-          for (const source of sources) {
-            totalTriangles += countTriangles(source.geometry);
-            materialCount += source.materials.length;
-            
-            for (const mat of source.materials) {
-              const stdMat = mat as THREE.MeshStandardMaterial;
-              if (stdMat.map) texturedMaterials++;
-            }
-            
-            if (source.geometry.getAttribute('color')) {
-              hasVertexColors = true;
-            }
-          }
+  // Per-vertex and per-face colors (red/green/blue or diffuse_* properties) become the color attribute
+  const loadPLY = useCallback(async (file: File): Promise<LoadedModel> => {
+    const buffer = await file.arrayBuffer();
 
-          console.log(`[useModelLoader] Loaded OBJ: ${sources.length} meshes, ${totalTriangles} triangles`);
+    // Scans are often saved as bare point clouds; the header says whether faces follow
+    const header = new TextDecoder('latin1').decode(buffer.slice(0, 4096));
+    const faceCount = Number(/^element\s+face\s+(\d+)/m.exec(header)?.[1] ?? 0);
+    if (faceCount === 0) {
+      throw new Error('PLY file has no faces (point clouds are not supported)');
+    }
 
-          resolve({
-            sources,
-            originalObject: obj,
-            triangleCount: totalTriangles,
-            name: objFile.name.replace(/\.[^/.]+$/, ''),
-            debugInfo: {
-              meshCount: sources.length,
-              materialCount,
-              texturedMaterials,
-              hasVertexColors,
-            },
-          });
-        },
-        undefined,
-        (err) => {
-          URL.revokeObjectURL(objUrl);
-          reject(err);
-        }
-      );
-    });
+    const geometry = new PLYLoader().parse(buffer);
+
+    return createSingleMeshModel(geometry, file, 'ply');
   }, []);
 
-  const loadModel = useCallback(
-    async (files: FileList | File[]) => {
+  // Magics colors are read by STLLoader, VisCAM/SolidView colors by readVisCamColors
+  const loadSTL = useCallback(async (file: File): Promise<LoadedModel> => {
+    const buffer = await file.arrayBuffer();
+    const geometry = new STLLoader().parse(buffer);
+
+    if (!geometry.getAttribute('color')) {
+      const colors = readVisCamColors(buffer, new THREE.Color(PLAIN_MESH_COLOR));
+      if (colors) geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    }
+
+    if (geometry.getAttribute('position').count === 0) {
+      throw new Error('No triangles found in STL file');
+    }
+
+    return createSingleMeshModel(geometry, file, 'stl');
+  }, []);
+
+  // Build items, components and every color source (painting, materials, textures) of the package
+  const load3MF = useCallback(async (file: File): Promise<LoadedModel> => {
+    const scene = await import3MF(file);
+    const sources = extractMeshSources(scene);
+
+    let totalTriangles = 0;
+    let texturedMaterials = 0;
+    let hasVertexColors = false;
+
+    for (const source of sources) {
+      totalTriangles += countTriangles(source.geometry);
+      for (const mat of source.materials) {
+        if ((mat as THREE.MeshStandardMaterial).map) texturedMaterials++;
+      }
+      if (source.geometry.getAttribute('color')) hasVertexColors = true;
+    }
+
+    console.log(`[useModelLoader] Loaded 3MF: ${sources.length} meshes, ${totalTriangles} triangles`);
+
+    return {
+      sources,
+      originalObject: scene,
+      triangleCount: totalTriangles,
+      name: file.name.replace(/\.[^/.]+$/, ''),
+      format: '3mf',
+      debugInfo: {
+        meshCount: sources.length,
+        materialCount: sources.length,
+        texturedMaterials,
+        hasVertexColors,
+      },
+    };
+  }, []);
+
+  // Load `main`, taking its companion files (buffers, MTL, textures) from `files`
+  const loadMainFile = useCallback(
+    async (main: File, files: File[]) => {
       setLoading(true);
       setError(null);
+      setModelChoice(null);
 
       try {
-        const fileArray = Array.from(files);
-        const glbFile = fileArray.find((f) => f.name.toLowerCase().endsWith('.glb') || f.name.toLowerCase().endsWith('.gltf'));
-        const objFile = fileArray.find((f) => f.name.toLowerCase().endsWith('.obj'));
-        const mtlFile = fileArray.find((f) => f.name.toLowerCase().endsWith('.mtl'));
-        const textureFile = fileArray.find(
-          (f) => f.name.toLowerCase().endsWith('.png') || f.name.toLowerCase().endsWith('.jpg') || f.name.toLowerCase().endsWith('.jpeg')
-        );
-
+        const lowerName = main.name.toLowerCase();
         let loadedModel: LoadedModel;
 
-        if (glbFile) {
-          loadedModel = await loadGLB(glbFile);
-        } else if (objFile) {
-          loadedModel = await loadOBJ(objFile, mtlFile, textureFile);
+        if (lowerName.endsWith('.glb') || lowerName.endsWith('.gltf')) {
+          loadedModel = await loadGLB(main, files.filter((f) => f !== main));
+        } else if (lowerName.endsWith('.ply')) {
+          loadedModel = await loadPLY(main);
+        } else if (lowerName.endsWith('.stl')) {
+          loadedModel = await loadSTL(main);
+        } else if (lowerName.endsWith('.3mf')) {
+          loadedModel = await load3MF(main);
         } else {
-          throw new Error('Please upload a GLB/GLTF or OBJ file');
+          loadedModel = await loadOBJ(main, files.filter((f) => f !== main), findCompanion(main, files, IMAGE_EXTENSIONS));
         }
 
         setModel(loadedModel);
@@ -278,12 +436,62 @@ export function useModelLoader() {
         setLoading(false);
       }
     },
-    [loadGLB, loadOBJ]
+    [loadGLB, loadOBJ, loadPLY, loadSTL, load3MF]
   );
 
+  const loadModel = useCallback(
+    async (files: FileList | File[]) => {
+      setLoading(true);
+      setError(null);
+      setModelChoice(null);
+
+      let fileArray: File[];
+      try {
+        // Archives are unpacked in place, their files keeping the paths inside the archive
+        const expanded = await Promise.all(
+          Array.from(files).map((f) => (isZipFile(f) ? extractZipFiles(f) : Promise.resolve([f])))
+        );
+        fileArray = expanded.flat();
+      } catch (err) {
+        setError(err instanceof Error ? `Failed to read ZIP archive: ${err.message}` : 'Failed to read ZIP archive');
+        setLoading(false);
+        return;
+      }
+
+      const candidates = fileArray.filter((f) => hasExtension(f, MODEL_EXTENSIONS));
+
+      if (candidates.length === 0) {
+        setError('Please upload a GLB/GLTF, OBJ, PLY, STL or 3MF file (or a ZIP containing one)');
+        setLoading(false);
+        return;
+      }
+
+      if (candidates.length > 1) {
+        setModelChoice({ candidates, files: fileArray });
+        setLoading(false);
+        return;
+      }
+
+      await loadMainFile(candidates[0], fileArray);
+    },
+    [loadMainFile]
+  );
+
+  const chooseModel = useCallback(
+    async (candidate: File) => {
+      if (modelChoice) await loadMainFile(candidate, modelChoice.files);
+    },
+    [modelChoice, loadMainFile]
+  );
+
+  const cancelModelChoice = useCallback(() => {
+    setModelChoice(null);
+  }, []);
+
   const clearModel = useCallback(() => {
     setModel(null);
     setError(null);
+    setModelChoice(null);
   }, []);
 
   return {
@@ -291,6 +499,9 @@ export function useModelLoader() {
     loading,
     error,
     loadModel,
+    modelChoice,
+    chooseModel,
+    cancelModelChoice,
     clearModel,
   };
 }
@@ -0,0 +1,189 @@
+// Adaptive subdivision: refines only the triangles whose texture footprint varies in color,
+// instead of splitting every triangle 4^n times
+import * as THREE from 'three';
+import { FaceUVs } from './colorExtractor';
+import { buildCornerGeometry, getCornerLayout, readCorners, weldCorners } from './cornerBuffer';
+
+export interface AdaptiveSubdivisionOptions {
+  /** Triangles are not split once their longest edge is at or below this length (mm) */
+  maxEdgeLength: number;
+  /** Hard cap on the output triangle count */
+  maxTriangles: number;
+  /** Footprint variance (sum over RGB, 0-255 units squared) above which a triangle is refined */
+  varianceThreshold?: number;
+  maxPasses?: number;
+}
+
+export interface AdaptiveSubdivisionResult {
+  geometry: THREE.BufferGeometry;
+  passes: number;
+}
+
+// ~12 levels of standard deviation per channel; a footprint spanning two palette colors is far above it
+const DEFAULT_VARIANCE_THRESHOLD = 432;
+const DEFAULT_MAX_PASSES = 6;
+
+// Worst case triangles added per refined face: 3 from its own split, plus one for each of the
+// up to 3 neighbours sharing a split edge
+const MAX_ADDED_PER_CANDIDATE = 6;
+
+// Async helper to yield to UI
+async function yieldToUI(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Split every triangle whose texel footprint has high color variance and whose longest edge
+ * is above `maxEdgeLength`, repeating for up to `maxPasses` passes.
+ *
+ * Splits are decided per shared edge, so the mesh stays conforming (no T-junctions): faces with
+ * 3 split edges become 4 triangles, 2 split edges 3 triangles and 1 split edge 2 triangles.
+ * When the budget can't cover every candidate, the highest-variance ones are refined first.
+ * `footprintVariance` gets the face's material slot (its `materialId`, 0 without one), and every
+ * vertex attribute is interpolated onto the new corners.
+ */
+export async function subdivideAdaptiveAsync(
+  geometry: THREE.BufferGeometry,
+  footprintVariance: (uvs: FaceUVs, materialId: number) => number,
+  options: AdaptiveSubdivisionOptions,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<AdaptiveSubdivisionResult> {
+  const threshold = options.varianceThreshold ?? DEFAULT_VARIANCE_THRESHOLD;
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES;
+  const maxEdgeSq = options.maxEdgeLength * options.maxEdgeLength;
+
+  const soup = geometry.getIndex() ? geometry.toNonIndexed() : geometry;
+  const layout = getCornerLayout(soup);
+  const { stride } = layout;
+  let corners = readCorners(soup, layout);
+  if (soup !== geometry) soup.dispose();
+
+  let pass = 0;
+  for (; pass < maxPasses; pass++) {
+    const faceCount = corners.length / (stride * 3);
+    onProgress?.((pass / maxPasses) * 100, `Subdivisão adaptativa (passo ${pass + 1}, ${faceCount.toLocaleString()} triângulos)...`);
+
+    // 1. Find candidates
+    const candidates: { face: number; score: number }[] = [];
+    for (let f = 0; f < faceCount; f++) {
+      const o = f * 3 * stride;
+      let longestSq = 0;
+      for (let e = 0; e < 3; e++) {
+        const a = o + e * stride;
+        const b = o + ((e + 1) % 3) * stride;
+        const dx = corners[a] - corners[b];
+        const dy = corners[a + 1] - corners[b + 1];
+        const dz = corners[a + 2] - corners[b + 2];
+        longestSq = Math.max(longestSq, dx * dx + dy * dy + dz * dz);
+      }
+      if (longestSq <= maxEdgeSq) continue;
+
+      const uv = o + layout.uv;
+      const uvs: FaceUVs = layout.uv < 0 ? [0, 0, 0, 0, 0, 0] : [
+        corners[uv], corners[uv + 1],
+        corners[uv + stride], corners[uv + stride + 1],
+        corners[uv + 2 * stride], corners[uv + 2 * stride + 1],
+      ];
+      const score = footprintVariance(uvs, layout.materialId < 0 ? 0 : Math.round(corners[o + layout.materialId]));
+      if (score > threshold) candidates.push({ face: f, score });
+
+      if (f % 20000 === 0) {
+        await yieldToUI();
+        signal?.throwIfAborted();
+      }
+    }
+
+    const budget = Math.floor((options.maxTriangles - faceCount) / MAX_ADDED_PER_CANDIDATE);
+    if (candidates.length === 0 || budget <= 0) break;
+    if (candidates.length > budget) {
+      candidates.sort((a, b) => b.score - a.score);
+      candidates.length = budget;
+    }
+
+    // 2. Mark the edges of every candidate
+    const ids = weldCorners(corners, stride);
+    const vertexCount = ids.reduce((max, id) => Math.max(max, id), 0) + 1;
+    const edgeKey = (a: number, b: number) => (a < b ? a * vertexCount + b : b * vertexCount + a);
+
+    const marked = new Set<number>();
+    for (const { face } of candidates) {
+      const c = face * 3;
+      marked.add(edgeKey(ids[c], ids[c + 1]));
+      marked.add(edgeKey(ids[c + 1], ids[c + 2]));
+      marked.add(edgeKey(ids[c + 2], ids[c]));
+    }
+
+    // 3. Rebuild faces according to how many of their edges are marked
+    const out: number[] = [];
+    const corner = (f: number, k: number) => Array.from(corners.subarray((f * 3 + k) * stride, (f * 3 + k + 1) * stride));
+    // The corners of a face share its material slot, so averaging keeps materialId exact
+    const mid = (a: number[], b: number[]) => {
+      const m = a.map((v, i) => (v + b[i]) / 2);
+      const n = layout.normal;
+      if (n >= 0) {
+        const len = Math.hypot(m[n], m[n + 1], m[n + 2]) || 1;
+        m[n] /= len;
+        m[n + 1] /= len;
+        m[n + 2] /= len;
+      }
+      return m;
+    };
+    const emit = (...tri: number[][]) => {
+      for (const c of tri) out.push(...c);
+    };
+
+    for (let f = 0; f < faceCount; f++) {
+      const c = f * 3;
+      const m = [
+        marked.has(edgeKey(ids[c], ids[c + 1])),
+        marked.has(edgeKey(ids[c + 1], ids[c + 2])),
+        marked.has(edgeKey(ids[c + 2], ids[c])),
+      ];
+      const markedCount = m.filter(Boolean).length;
+      const v = [corner(f, 0), corner(f, 1), corner(f, 2)];
+
+      if (markedCount === 0) {
+        emit(v[0], v[1], v[2]);
+      } else if (markedCount === 3) {
+        const m01 = mid(v[0], v[1]);
+        const m12 = mid(v[1], v[2]);
+        const m20 = mid(v[2], v[0]);
+        emit(v[0], m01, m20);
+        emit(m01, v[1], m12);
+        emit(m20, m12, v[2]);
+        emit(m01, m12, m20);
+      } else if (markedCount === 1) {
+        // Rotate so the marked edge is a→b
+        const r = m.indexOf(true);
+        const [a, b, cc] = [v[r], v[(r + 1) % 3], v[(r + 2) % 3]];
+        const mab = mid(a, b);
+        emit(a, mab, cc);
+        emit(mab, b, cc);
+      } else {
+        // Rotate so the unmarked edge is c→a (marked: a→b and b→c)
+        const r = (m.indexOf(false) + 1) % 3;
+        const [a, b, cc] = [v[r], v[(r + 1) % 3], v[(r + 2) % 3]];
+        const mab = mid(a, b);
+        const mbc = mid(b, cc);
+        emit(b, mbc, mab);
+        emit(a, mab, mbc);
+        emit(a, mbc, cc);
+      }
+
+      if (f % 20000 === 0) {
+        await yieldToUI();
+        signal?.throwIfAborted();
+      }
+    }
+
+    corners = new Float32Array(out);
+  }
+
+  const count = corners.length / stride;
+  const result = buildCornerGeometry(corners, layout);
+
+  console.log(`[subdivideAdaptiveAsync] ${pass} passes → ${count / 3} triangles`);
+
+  return { geometry: result, passes: pass };
+}
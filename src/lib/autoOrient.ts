@@ -0,0 +1,233 @@
+// Auto-orientation: tries candidate "down" directions on the combined mesh and keeps the one
+// needing the least support (mostly away from colored detail) at a reasonable height
+import * as THREE from 'three';
+
+export interface OrientationCandidate {
+  /** Direction, in the current print axes, that ends up pointing down (-Z) */
+  down: THREE.Vector3;
+  /** Downward-facing area off the bed that needs support (mm²) */
+  overhangArea: number;
+  /** Part of the overhang area on faces that are not the dominant color */
+  coloredOverhangArea: number;
+  /** Area lying flat on the bed (mm²) */
+  contactArea: number;
+  /** Height after rotation (mm) */
+  height: number;
+  score: number;
+}
+
+export interface AutoOrientResult {
+  best: OrientationCandidate;
+  current: OrientationCandidate;
+  /** Rotation (print axes) taking the current orientation to the best one */
+  rotation: THREE.Quaternion;
+  candidates: number;
+}
+
+// Faces pointing down within this angle of vertical need support
+const OVERHANG_ANGLE_DEG = 45;
+// Faces entirely this close to the bed rest on it (mm)
+const BED_TOLERANCE = 0.2;
+
+// Score = overhang share + COLOR_WEIGHT * colored overhang share + HEIGHT_WEIGHT * height / diagonal
+// + CONTACT_WEIGHT while the bed contact is below MIN_CONTACT_SHARE of the surface (scaled down as it grows).
+// Support scars on colored detail are the worst outcome; height only breaks near ties; the contact
+// term keeps parts from being balanced on an edge or corner.
+const COLOR_WEIGHT = 2;
+const HEIGHT_WEIGHT = 0.1;
+const CONTACT_WEIGHT = 0.2;
+const MIN_CONTACT_SHARE = 0.05;
+// Faces whose normal is within ~8° of straight down can lie on the bed
+const FLAT_COS = 0.99;
+
+// Extra candidates taken from the largest groups of similarly oriented faces
+const MAX_FLAT_CANDIDATES = 24;
+// Candidates closer than this are evaluated once
+const MIN_CANDIDATE_ANGLE_DEG = 3;
+
+const DOWN = new THREE.Vector3(0, 0, -1);
+
+// Async helper to yield to UI
+async function yieldToUI(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Rotation that lays a face with `normal` (print axes) flat on the bed.
+ */
+export function getLayFlatRotation(normal: THREE.Vector3): THREE.Quaternion {
+  return new THREE.Quaternion().setFromUnitVectors(normal.clone().normalize(), DOWN);
+}
+
+/**
+ * Candidate down directions: the 26 axis, edge and corner directions of a cube, plus the
+ * normals of the largest flat areas (laying them on the bed usually removes most support).
+ */
+function buildCandidates(normals: Float32Array, areas: Float32Array): THREE.Vector3[] {
+  const candidates: THREE.Vector3[] = [];
+  const minDot = Math.cos(THREE.MathUtils.degToRad(MIN_CANDIDATE_ANGLE_DEG));
+  const add = (v: THREE.Vector3) => {
+    if (v.lengthSq() === 0) return;
+    v.normalize();
+    if (!candidates.some(c => c.dot(v) > minDot)) candidates.push(v);
+  };
+
+  // Current orientation first, so it is always evaluated
+  add(DOWN.clone());
+  for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+      for (let z = -1; z <= 1; z++) {
+        add(new THREE.Vector3(x, y, z));
+      }
+    }
+  }
+
+  // Group normals on a coarse grid and average each group by area
+  const groups = new Map<string, { sum: THREE.Vector3; area: number }>();
+  for (let f = 0; f < areas.length; f++) {
+    const nx = normals[f * 3], ny = normals[f * 3 + 1], nz = normals[f * 3 + 2];
+    const key = `${Math.round(nx * 10)},${Math.round(ny * 10)},${Math.round(nz * 10)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { sum: new THREE.Vector3(), area: 0 };
+      groups.set(key, group);
+    }
+    group.sum.x += nx * areas[f];
+    group.sum.y += ny * areas[f];
+    group.sum.z += nz * areas[f];
+    group.area += areas[f];
+  }
+
+  Array.from(groups.values())
+    .sort((a, b) => b.area - a.area)
+    .slice(0, MAX_FLAT_CANDIDATES)
+    .forEach(group => add(group.sum));
+
+  return candidates;
+}
+
+/**
+ * Evaluate candidate orientations of `geometry` (print axes, mm) and pick the best one.
+ * `faceColorIndices`, when given, lets support on non-dominant colors cost more.
+ */
+export async function findBestOrientationAsync(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices?: ArrayLike<number>,
+  signal?: AbortSignal
+): Promise<AutoOrientResult> {
+  const posAttr = geometry.getAttribute('position');
+  const indexAttr = geometry.getIndex();
+  const faceCount = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+  const cornerVertex = (corner: number) => (indexAttr ? indexAttr.getX(corner) : corner);
+
+  // Corner positions, unit normals and areas per face
+  const corners = new Float32Array(faceCount * 9);
+  const normals = new Float32Array(faceCount * 3);
+  const areas = new Float32Array(faceCount);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const tri = new THREE.Triangle(a, b, c);
+  const normal = new THREE.Vector3();
+  let totalArea = 0;
+
+  for (let f = 0; f < faceCount; f++) {
+    a.fromBufferAttribute(posAttr, cornerVertex(f * 3));
+    b.fromBufferAttribute(posAttr, cornerVertex(f * 3 + 1));
+    c.fromBufferAttribute(posAttr, cornerVertex(f * 3 + 2));
+    a.toArray(corners, f * 9);
+    b.toArray(corners, f * 9 + 3);
+    c.toArray(corners, f * 9 + 6);
+    tri.getNormal(normal).toArray(normals, f * 3);
+    areas[f] = tri.getArea();
+    totalArea += areas[f];
+  }
+
+  // Faces of any color other than the one covering the most area count as colored detail
+  const colored = new Uint8Array(faceCount);
+  if (faceColorIndices) {
+    const areaByColor = new Map<number, number>();
+    for (let f = 0; f < faceCount; f++) {
+      areaByColor.set(faceColorIndices[f], (areaByColor.get(faceColorIndices[f]) || 0) + areas[f]);
+    }
+    let dominant = -1;
+    let dominantArea = -1;
+    for (const [color, area] of areaByColor) {
+      if (area > dominantArea) {
+        dominant = color;
+        dominantArea = area;
+      }
+    }
+    for (let f = 0; f < faceCount; f++) colored[f] = faceColorIndices[f] !== dominant ? 1 : 0;
+  }
+
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const diagonal = geometry.boundingBox!.getSize(new THREE.Vector3()).length() || 1;
+  // Faces exactly at the limit count as overhang, so 45° tilts balanced on an edge don't win
+  const overhangCos = Math.cos(THREE.MathUtils.degToRad(OVERHANG_ANGLE_DEG)) - 1e-4;
+
+  const evaluate = (down: THREE.Vector3): OrientationCandidate => {
+    // Height along the new up axis is -p·down
+    let minZ = Infinity;
+    let maxZ = -Infinity;
+    for (let i = 0; i < corners.length; i += 3) {
+      const z = -(corners[i] * down.x + corners[i + 1] * down.y + corners[i + 2] * down.z);
+      if (z < minZ) minZ = z;
+      if (z > maxZ) maxZ = z;
+    }
+
+    let overhangArea = 0;
+    let coloredOverhangArea = 0;
+    let contactArea = 0;
+    for (let f = 0; f < faceCount; f++) {
+      const nz = -(normals[f * 3] * down.x + normals[f * 3 + 1] * down.y + normals[f * 3 + 2] * down.z);
+      if (nz > -overhangCos) continue;
+
+      let faceTop = -Infinity;
+      for (let k = 0; k < 9; k += 3) {
+        const o = f * 9 + k;
+        faceTop = Math.max(faceTop, -(corners[o] * down.x + corners[o + 1] * down.y + corners[o + 2] * down.z));
+      }
+      if (faceTop - minZ <= BED_TOLERANCE) {
+        if (nz < -FLAT_COS) contactArea += areas[f];
+        continue;
+      }
+
+      overhangArea += areas[f];
+      if (colored[f]) coloredOverhangArea += areas[f];
+    }
+
+    const height = maxZ - minZ;
+    const stability = totalArea > 0 ? Math.min(1, contactArea / (totalArea * MIN_CONTACT_SHARE)) : 1;
+    const score = totalArea > 0
+      ? overhangArea / totalArea +
+        COLOR_WEIGHT * (coloredOverhangArea / totalArea) +
+        HEIGHT_WEIGHT * (height / diagonal) +
+        CONTACT_WEIGHT * (1 - stability)
+      : 0;
+
+    return { down: down.clone(), overhangArea, coloredOverhangArea, contactArea, height, score };
+  };
+
+  const candidates = buildCandidates(normals, areas);
+  let current: OrientationCandidate | null = null;
+  let best: OrientationCandidate | null = null;
+
+  for (let i = 0; i < candidates.length; i++) {
+    const result = evaluate(candidates[i]);
+    if (i === 0) current = result;
+    if (!best || result.score < best.score) best = result;
+
+    await yieldToUI();
+    signal?.throwIfAborted();
+  }
+
+  console.log(`[findBestOrientationAsync] ${candidates.length} candidates, score ${current!.score.toFixed(4)} → ${best!.score.toFixed(4)}`);
+
+  return {
+    best: best!,
+    current: current!,
+    rotation: new THREE.Quaternion().setFromUnitVectors(best!.down, DOWN),
+    candidates: candidates.length,
+  };
+}
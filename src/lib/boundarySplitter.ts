@@ -0,0 +1,224 @@
+// Color-boundary splitting: cuts triangles where the texture color changes across them,
+// so each side gets its own palette index without subdividing the whole mesh
+import * as THREE from 'three';
+import { buildCornerGeometry, getCornerLayout, readCorners, weldCorners } from './cornerBuffer';
+
+export interface BoundarySplitResult {
+  geometry: THREE.BufferGeometry;
+  faceColorIndices: number[];
+  /** Number of original triangles that were cut */
+  splitFaces: number;
+}
+
+// Binary search steps to locate the color change along an edge (2^-6 of the edge length)
+const BOUNDARY_SEARCH_STEPS = 6;
+
+// Triangles a face is cut into for 0, 1, 2 and 3 split edges
+const PIECES_BY_SPLIT_EDGES = [1, 2, 3, 6];
+
+// Async helper to yield to UI
+async function yieldToUI(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Split every textured triangle whose corners map to different palette colors along the
+ * color boundary. Two-color triangles are cut into 3 pieces along the boundary line,
+ * three-color triangles into 6 pieces around the centroid. Winding is preserved and every
+ * vertex attribute is interpolated onto the new corners.
+ *
+ * Split points are decided once per shared edge (welded by position) and reused by every face
+ * on it, so neighbors cut the edge at the same point and the mesh stays free of T-junctions.
+ * A face whose own corners agree still gets cut where a neighbor split their shared edge.
+ *
+ * `labelAt` returns the palette index of the texture color at a UV, sampled with the material
+ * of the face's slot (its `materialId`, 0 without one), or null when that slot has no texture.
+ * Edges are left unsplit once the output would exceed `maxTriangles`.
+ */
+export async function splitAlongColorBoundariesAsync(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  labelAt: (u: number, v: number, materialId: number) => number | null,
+  maxTriangles: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<BoundarySplitResult> {
+  if (!geometry.getAttribute('uv')) {
+    return { geometry: geometry.clone(), faceColorIndices: [...faceColorIndices], splitFaces: 0 };
+  }
+
+  const soup = geometry.getIndex() ? geometry.toNonIndexed() : geometry;
+  const layout = getCornerLayout(soup);
+  const { stride } = layout;
+  const corners = readCorners(soup, layout);
+  if (soup !== geometry) soup.dispose();
+
+  const faceCount = corners.length / (stride * 3);
+  const ids = weldCorners(corners, stride);
+  const vertexCount = ids.reduce((max, id) => Math.max(max, id), 0) + 1;
+  const edgeKey = (a: number, b: number) => (a < b ? a * vertexCount + b : b * vertexCount + a);
+
+  const slotOf = (face: number) => (layout.materialId < 0 ? 0 : Math.round(corners[face * 3 * stride + layout.materialId]));
+  const uvAt = (corner: number, t = 0, to = corner): [number, number] => {
+    const a = corner * stride + layout.uv;
+    const b = to * stride + layout.uv;
+    return [corners[a] + (corners[b] - corners[a]) * t, corners[a + 1] + (corners[b + 1] - corners[a + 1]) * t];
+  };
+
+  // 1. Palette index at every corner, and the faces on every welded edge
+  const labels: (number | null)[] = new Array(faceCount * 3);
+  const facesOnEdge = new Map<number, number[]>();
+  for (let f = 0; f < faceCount; f++) {
+    const slot = slotOf(f);
+    for (let k = 0; k < 3; k++) {
+      const c = f * 3 + k;
+      labels[c] = labelAt(...uvAt(c), slot);
+
+      const key = edgeKey(ids[c], ids[f * 3 + ((k + 1) % 3)]);
+      const faces = facesOnEdge.get(key);
+      if (faces) faces.push(f);
+      else facesOnEdge.set(key, [f]);
+    }
+
+    if (f % 5000 === 0) {
+      onProgress?.((f / faceCount) * 25);
+      await yieldToUI();
+      signal?.throwIfAborted();
+    }
+  }
+
+  // Parameter along from→to where the label changes from the one at `from`
+  const findBoundary = (from: number, to: number, slot: number): number => {
+    const label = labels[from];
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < BOUNDARY_SEARCH_STEPS; i++) {
+      const mid = (lo + hi) / 2;
+      if (labelAt(...uvAt(from, mid, to), slot) === label) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  // 2. Decide the split point of each edge whose ends differ in color, searched from its lower
+  // vertex id so the result doesn't depend on which face reaches the edge first
+  const splitAt = new Map<number, number>();
+  const splitEdgeCount = new Uint8Array(faceCount);
+  let triangleCount = faceCount;
+
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const c0 = f * 3 + k;
+      const c1 = f * 3 + ((k + 1) % 3);
+      if (labels[c0] === null || labels[c1] === null || labels[c0] === labels[c1] || ids[c0] === ids[c1]) continue;
+
+      const key = edgeKey(ids[c0], ids[c1]);
+      if (splitAt.has(key)) continue;
+
+      const faces = facesOnEdge.get(key) ?? [];
+      const added = faces.reduce(
+        (sum, g) => sum + PIECES_BY_SPLIT_EDGES[Math.min(splitEdgeCount[g] + 1, 3)] - PIECES_BY_SPLIT_EDGES[splitEdgeCount[g]],
+        0
+      );
+      if (triangleCount + added > maxTriangles) continue;
+
+      const [from, to] = ids[c0] < ids[c1] ? [c0, c1] : [c1, c0];
+      splitAt.set(key, findBoundary(from, to, slotOf(f)));
+      faces.forEach(g => {
+        splitEdgeCount[g] = Math.min(splitEdgeCount[g] + 1, 3);
+      });
+      triangleCount += added;
+    }
+
+    if (f % 5000 === 0) {
+      onProgress?.(25 + (f / faceCount) * 25);
+      await yieldToUI();
+      signal?.throwIfAborted();
+    }
+  }
+
+  // 3. Rebuild faces according to how many of their edges are split
+  const out: number[] = [];
+  const newColorIndices: number[] = [];
+  let splitFaces = 0;
+
+  const corner = (c: number) => Array.from(corners.subarray(c * stride, (c + 1) * stride));
+  const normalize = (m: number[]) => {
+    const n = layout.normal;
+    if (n >= 0) {
+      const len = Math.hypot(m[n], m[n + 1], m[n + 2]) || 1;
+      m[n] /= len;
+      m[n + 1] /= len;
+      m[n + 2] /= len;
+    }
+    return m;
+  };
+  // Always interpolated from the lower vertex id, so both faces on the edge get the same point
+  const pointOn = (c0: number, c1: number): number[] | null => {
+    const t = splitAt.get(edgeKey(ids[c0], ids[c1]));
+    if (t === undefined || ids[c0] === ids[c1]) return null;
+    const [a, b] = ids[c0] < ids[c1] ? [corner(c0), corner(c1)] : [corner(c1), corner(c0)];
+    return normalize(a.map((value, i) => value + (b[i] - value) * t));
+  };
+  const centroid = (a: number[], b: number[], c: number[]) => normalize(a.map((value, i) => (value + b[i] + c[i]) / 3));
+  const emit = (a: number[], b: number[], c: number[], colorIndex: number) => {
+    out.push(...a, ...b, ...c);
+    newColorIndices.push(colorIndex);
+  };
+
+  for (let f = 0; f < faceCount; f++) {
+    const c = [f * 3, f * 3 + 1, f * 3 + 2];
+    const p = [pointOn(c[0], c[1]), pointOn(c[1], c[2]), pointOn(c[2], c[0])];
+    const v = c.map(corner);
+    const l = c.map(i => labels[i]);
+    const faceColor = faceColorIndices[f];
+
+    // Faces cut only because a neighbor split a shared edge keep their own color
+    const uniform = l[0] === null || (l[0] === l[1] && l[1] === l[2]);
+    const colorOf = (k: number) => (uniform ? faceColor : (l[k] as number));
+    const splitCount = p.filter(Boolean).length;
+
+    if (splitCount === 0) {
+      emit(v[0], v[1], v[2], faceColor);
+    } else if (splitCount === 3) {
+      const [pab, pbc, pca] = p as number[][];
+      const g = centroid(v[0], v[1], v[2]);
+      emit(v[0], pab, g, colorOf(0));
+      emit(v[0], g, pca, colorOf(0));
+      emit(v[1], pbc, g, colorOf(1));
+      emit(v[1], g, pab, colorOf(1));
+      emit(v[2], pca, g, colorOf(2));
+      emit(v[2], g, pbc, colorOf(2));
+    } else if (splitCount === 1) {
+      // Rotate so the split edge is a→b
+      const r = p.findIndex(Boolean);
+      const [a, b, cc] = [r, (r + 1) % 3, (r + 2) % 3];
+      const pab = p[r] as number[];
+      emit(v[a], pab, v[cc], colorOf(a));
+      emit(pab, v[b], v[cc], colorOf(b));
+    } else {
+      // Rotate so the unsplit edge is c→a (split: a→b and b→c); each piece takes the color
+      // of the original corner it holds
+      const r = (p.indexOf(null) + 1) % 3;
+      const [a, b, cc] = [r, (r + 1) % 3, (r + 2) % 3];
+      const pab = p[a] as number[];
+      const pbc = p[b] as number[];
+      emit(v[b], pbc, pab, colorOf(b));
+      emit(v[a], pab, pbc, colorOf(a));
+      emit(v[a], pbc, v[cc], colorOf(cc));
+    }
+    if (splitCount > 0) splitFaces++;
+
+    if (f % 5000 === 0) {
+      onProgress?.(50 + (f / faceCount) * 50);
+      await yieldToUI();
+      signal?.throwIfAborted();
+    }
+  }
+
+  const result = buildCornerGeometry(new Float32Array(out), layout);
+
+  console.log(`[splitAlongColorBoundariesAsync] Split ${splitFaces} of ${faceCount} faces → ${newColorIndices.length} triangles`);
+
+  return { geometry: result, faceColorIndices: newColorIndices, splitFaces };
+}
@@ -10,6 +10,16 @@ export interface MeshSource {
   name: string;
 }
 
+/**
+ * Material of one slot in the combined geometry, addressed by its per-vertex `materialId`.
+ * Sources that share a material (and the same vertex-color setup) share a slot.
+ */
+export interface MaterialSlot {
+  material: THREE.Material | null;
+  /** Faces take their color from the `color` attribute instead of the material */
+  vertexColors: boolean;
+}
+
 export interface ColorExtractionResult {
   faceColors: RGB[];
   debugInfo: {
@@ -28,6 +38,200 @@ async function yieldToUI(): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, 0));
 }
 
+/**
+ * How a face color is read from its texture.
+ * - centroid: nearest texel at the UV centroid (fastest)
+ * - bilinear: bilinear filtered lookup at the UV centroid
+ * - area: average of every texel the triangle covers in UV space
+ * - majority: dominant color among the covered texels
+ */
+export type SamplingMode = 'centroid' | 'bilinear' | 'area' | 'majority';
+
+export interface ColorExtractionOptions {
+  samplingMode?: SamplingMode;
+  signal?: AbortSignal;
+}
+
+/** u0, v0, u1, v1, u2, v2 */
+export type FaceUVs = [number, number, number, number, number, number];
+
+// Upper bound of texels visited per triangle; larger triangles are sampled on a coarser grid
+const MAX_RASTER_TEXELS = 4096;
+
+// Majority vote bins colors to 5 bits per channel so texture noise doesn't split the vote
+const MAJORITY_SHIFT = 3;
+
+// Map an integer texel coordinate into [0, size) following a three.js wrap mode
+function wrapTexel(i: number, size: number, wrap: THREE.Wrapping): number {
+  if (wrap === THREE.ClampToEdgeWrapping) return Math.min(size - 1, Math.max(0, i));
+  if (wrap === THREE.MirroredRepeatWrapping) {
+    const period = size * 2;
+    const m = ((i % period) + period) % period;
+    return m < size ? m : period - 1 - m;
+  }
+  return ((i % size) + size) % size;
+}
+
+// Texel addressing for one texture: UV → texel space, wrapping and filtering
+class TexelSampler {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly data: Uint8ClampedArray;
+
+  constructor(imageData: ImageData, private readonly texture: THREE.Texture) {
+    this.width = imageData.width;
+    this.height = imageData.height;
+    this.data = imageData.data;
+  }
+
+  // Continuous texel coordinates (texel centers at .5)
+  private toTexel(u: number, v: number): [number, number] {
+    const y = this.texture.flipY ? 1 - v : v;
+    return [u * this.width, y * this.height];
+  }
+
+  private read(x: number, y: number, out: number[], weight: number = 1) {
+    const tx = wrapTexel(x, this.width, this.texture.wrapS);
+    const ty = wrapTexel(y, this.height, this.texture.wrapT);
+    const idx = (ty * this.width + tx) * 4;
+    out[0] += this.data[idx] * weight;
+    out[1] += this.data[idx + 1] * weight;
+    out[2] += this.data[idx + 2] * weight;
+  }
+
+  nearest(u: number, v: number): RGB {
+    const [x, y] = this.toTexel(u, v);
+    const sum = [0, 0, 0];
+    this.read(Math.floor(x), Math.floor(y), sum);
+    return { r: sum[0], g: sum[1], b: sum[2] };
+  }
+
+  bilinear(u: number, v: number): RGB {
+    const [x, y] = this.toTexel(u, v);
+    const fx = x - 0.5;
+    const fy = y - 0.5;
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const tx = fx - x0;
+    const ty = fy - y0;
+
+    const sum = [0, 0, 0];
+    this.read(x0, y0, sum, (1 - tx) * (1 - ty));
+    this.read(x0 + 1, y0, sum, tx * (1 - ty));
+    this.read(x0, y0 + 1, sum, (1 - tx) * ty);
+    this.read(x0 + 1, y0 + 1, sum, tx * ty);
+    return { r: Math.round(sum[0]), g: Math.round(sum[1]), b: Math.round(sum[2]) };
+  }
+
+  /**
+   * Call `visit` with the color of every texel center covered by the triangle (on a coarser
+   * grid for very large footprints). Returns the number of texels visited.
+   */
+  private visitCovered(uvs: FaceUVs, visit: (texel: number[]) => void): number {
+    const [ax, ay] = this.toTexel(uvs[0], uvs[1]);
+    const [bx, by] = this.toTexel(uvs[2], uvs[3]);
+    const [cx, cy] = this.toTexel(uvs[4], uvs[5]);
+
+    const area = (bx - ax) * (cy - ay) - (cx - ax) * (by - ay);
+    if (Math.abs(area) < 1e-12) return 0;
+
+    const minX = Math.floor(Math.min(ax, bx, cx));
+    const maxX = Math.ceil(Math.max(ax, bx, cx));
+    const minY = Math.floor(Math.min(ay, by, cy));
+    const maxY = Math.ceil(Math.max(ay, by, cy));
+    const step = Math.max(1, Math.ceil(Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_RASTER_TEXELS)));
+
+    let count = 0;
+    for (let y = minY; y < maxY; y += step) {
+      const py = y + 0.5;
+      for (let x = minX; x < maxX; x += step) {
+        const px = x + 0.5;
+
+        // Barycentric inside test (either winding)
+        const w0 = ((bx - px) * (cy - py) - (cx - px) * (by - py)) / area;
+        const w1 = ((cx - px) * (ay - py) - (ax - px) * (cy - py)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+        const texel = [0, 0, 0];
+        this.read(x, y, texel);
+        visit(texel);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Average of the texels covered by the triangle (or the average of the most frequent color
+   * bin). Returns null when the triangle covers no texel center.
+   */
+  rasterize(uvs: FaceUVs, majority: boolean): RGB | null {
+    const sum = [0, 0, 0];
+    const bins = majority ? new Map<number, { sum: number[]; count: number }>() : null;
+
+    const count = this.visitCovered(uvs, (texel) => {
+      if (bins) {
+        const key = ((texel[0] >> MAJORITY_SHIFT) << 10) | ((texel[1] >> MAJORITY_SHIFT) << 5) | (texel[2] >> MAJORITY_SHIFT);
+        let bin = bins.get(key);
+        if (!bin) {
+          bin = { sum: [0, 0, 0], count: 0 };
+          bins.set(key, bin);
+        }
+        bin.sum[0] += texel[0];
+        bin.sum[1] += texel[1];
+        bin.sum[2] += texel[2];
+        bin.count++;
+      } else {
+        sum[0] += texel[0];
+        sum[1] += texel[1];
+        sum[2] += texel[2];
+      }
+    });
+
+    if (count === 0) return null;
+
+    if (bins) {
+      let best: { sum: number[]; count: number } | null = null;
+      for (const bin of bins.values()) {
+        if (!best || bin.count > best.count) best = bin;
+      }
+      return {
+        r: Math.round(best!.sum[0] / best!.count),
+        g: Math.round(best!.sum[1] / best!.count),
+        b: Math.round(best!.sum[2] / best!.count),
+      };
+    }
+
+    return { r: Math.round(sum[0] / count), g: Math.round(sum[1] / count), b: Math.round(sum[2] / count) };
+  }
+
+  /**
+   * Color variance of the covered texels (sum over R, G, B, in 0-255 units squared).
+   * Triangles smaller than a texel report 0.
+   */
+  variance(uvs: FaceUVs): number {
+    const sum = [0, 0, 0];
+    const sumSq = [0, 0, 0];
+
+    const count = this.visitCovered(uvs, (texel) => {
+      for (let c = 0; c < 3; c++) {
+        sum[c] += texel[c];
+        sumSq[c] += texel[c] * texel[c];
+      }
+    });
+
+    if (count < 2) return 0;
+
+    let variance = 0;
+    for (let c = 0; c < 3; c++) {
+      const mean = sum[c] / count;
+      variance += sumSq[c] / count - mean * mean;
+    }
+    return Math.max(0, variance);
+  }
+}
+
 // Sample texture at UV coordinates
 class TextureCache {
   private cache: Map<string, ImageData | null> = new Map();
@@ -44,6 +248,7 @@ class TextureCache {
     return imageData;
   }
 
+  // Decodes with createImageBitmap + OffscreenCanvas so it also runs inside a Web Worker
   private async loadTextureData(texture: THREE.Texture): Promise<ImageData | null> {
     if (!texture?.image) {
       console.warn('[TextureCache] No texture.image');
@@ -51,11 +256,9 @@ class TextureCache {
     }
 
     const image = texture.image;
-    let sourceWidth = 0;
-    let sourceHeight = 0;
-    let drawSource: CanvasImageSource | null = null;
 
-    if (image instanceof HTMLImageElement) {
+    // HTML images only exist on the main thread; wait until they are decoded
+    if (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) {
       if (!image.complete || image.naturalWidth === 0) {
         await new Promise<void>((resolve, reject) => {
           image.onload = () => resolve();
@@ -63,63 +266,50 @@ class TextureCache {
           if (image.complete && image.naturalWidth > 0) resolve();
         });
       }
-      sourceWidth = image.naturalWidth || image.width;
-      sourceHeight = image.naturalHeight || image.height;
-      drawSource = image;
-    } else if (image instanceof HTMLCanvasElement) {
-      sourceWidth = image.width;
-      sourceHeight = image.height;
-      drawSource = image;
-    } else if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
-      sourceWidth = image.width;
-      sourceHeight = image.height;
-      drawSource = image;
-    } else if (image.width && image.height) {
-      sourceWidth = image.width;
-      sourceHeight = image.height;
-      drawSource = image as CanvasImageSource;
     }
 
-    if (!drawSource || sourceWidth === 0 || sourceHeight === 0) {
+    const sourceWidth = image.naturalWidth || image.width || 0;
+    const sourceHeight = image.naturalHeight || image.height || 0;
+
+    if (sourceWidth === 0 || sourceHeight === 0) {
       console.warn('[TextureCache] Invalid image source');
       return null;
     }
 
-    const canvas = document.createElement('canvas');
-    canvas.width = sourceWidth;
-    canvas.height = sourceHeight;
+    let bitmap: ImageBitmap | null = null;
+    try {
+      bitmap = typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap
+        ? image
+        : await createImageBitmap(image as ImageBitmapSource);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
+      const canvas = new OffscreenCanvas(sourceWidth, sourceHeight);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
 
-    try {
-      ctx.drawImage(drawSource, 0, 0, sourceWidth, sourceHeight);
+      ctx.drawImage(bitmap, 0, 0, sourceWidth, sourceHeight);
       return ctx.getImageData(0, 0, sourceWidth, sourceHeight);
     } catch (e) {
-      console.error('[TextureCache] Error drawing image:', e);
+      console.error('[TextureCache] Error decoding image:', e);
       return null;
+    } finally {
+      // Only close bitmaps we created; the texture keeps its own
+      if (bitmap && bitmap !== image) bitmap.close();
     }
   }
 
-  sampleTexture(imageData: ImageData, u: number, v: number, flipY: boolean = true): RGB {
-    const wrappedU = ((u % 1) + 1) % 1;
-    const wrappedV = ((v % 1) + 1) % 1;
-    
-    const x = Math.min(imageData.width - 1, Math.max(0, Math.floor(wrappedU * imageData.width)));
-    const adjustedV = flipY ? (1 - wrappedV) : wrappedV;
-    const y = Math.min(imageData.height - 1, Math.max(0, Math.floor(adjustedV * imageData.height)));
+  /**
+   * Sample the color of a triangle given its three UVs, honoring the texture's wrapS/wrapT.
+   */
+  sampleFace(imageData: ImageData, texture: THREE.Texture, uvs: FaceUVs, mode: SamplingMode): RGB {
+    const sampler = new TexelSampler(imageData, texture);
+    const [u0, v0, u1, v1, u2, v2] = uvs;
+    const cu = (u0 + u1 + u2) / 3;
+    const cv = (v0 + v1 + v2) / 3;
 
-    const idx = (y * imageData.width + x) * 4;
-    
-    if (idx < 0 || idx + 2 >= imageData.data.length) {
-      return { r: 255, g: 0, b: 255 }; // Magenta fallback
-    }
+    if (mode === 'centroid') return sampler.nearest(cu, cv);
+    if (mode === 'bilinear') return sampler.bilinear(cu, cv);
 
-    return {
-      r: imageData.data[idx],
-      g: imageData.data[idx + 1],
-      b: imageData.data[idx + 2],
-    };
+    return sampler.rasterize(uvs, mode === 'majority') ?? sampler.bilinear(cu, cv);
   }
 
   dispose() {
@@ -127,12 +317,14 @@ class TextureCache {
   }
 }
 
-// Convert THREE.Color to RGB
+// Convert THREE.Color to RGB. Loaders keep colors (MTL Kd, glTF factors, vertex colors) in the
+// linear working space, while texels and palettes are sRGB bytes
 function threeColorToRGB(color: THREE.Color): RGB {
+  const srgb = color.getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
   return {
-    r: Math.round(color.r * 255),
-    g: Math.round(color.g * 255),
-    b: Math.round(color.b * 255),
+    r: Math.round(srgb.r * 255),
+    g: Math.round(srgb.g * 255),
+    b: Math.round(srgb.b * 255),
   };
 }
 
@@ -145,11 +337,23 @@ function multiplyColors(a: RGB, b: RGB): RGB {
   };
 }
 
+// Material index of the face starting at index `base`, from the geometry groups
+function getGroupMaterialIndex(groups: MeshSource['groups'], base: number): number {
+  for (const group of groups) {
+    if (base >= group.start && base < group.start + group.count) {
+      return group.materialIndex;
+    }
+  }
+  return 0;
+}
+
 // Extract colors from all mesh sources
 export async function extractColorsFromSources(
   sources: MeshSource[],
-  onProgress?: (progress: number, message: string) => void
+  onProgress?: (progress: number, message: string) => void,
+  options: ColorExtractionOptions = {}
 ): Promise<ColorExtractionResult> {
+  const { signal, samplingMode = 'centroid' } = options;
   const textureCache = new TextureCache();
   const allFaceColors: RGB[] = [];
   
@@ -226,18 +430,7 @@ export async function extractColorsFromSources(
 
       // If no vertex colors, use material
       if (!faceColor) {
-        // Find material for this face using groups
-        let materialIndex = 0;
-        if (groups.length > 0) {
-          for (const group of groups) {
-            if (base >= group.start && base < group.start + group.count) {
-              materialIndex = group.materialIndex;
-              break;
-            }
-          }
-        }
-
-        const material = materials[materialIndex] || materials[0];
+        const material = materials[getGroupMaterialIndex(groups, base)] || materials[0];
         
         if (material) {
           const stdMat = material as THREE.MeshStandardMaterial;
@@ -248,11 +441,11 @@ export async function extractColorsFromSources(
             const imageData = await textureCache.getImageData(stdMat.map);
             
             if (imageData) {
-              // Get center UV of face
-              const u = (uvAttr.getX(vi0) + uvAttr.getX(vi1) + uvAttr.getX(vi2)) / 3;
-              const v = (uvAttr.getY(vi0) + uvAttr.getY(vi1) + uvAttr.getY(vi2)) / 3;
-              
-              const textureColor = textureCache.sampleTexture(imageData, u, v, stdMat.map.flipY);
+              const textureColor = textureCache.sampleFace(imageData, stdMat.map, [
+                uvAttr.getX(vi0), uvAttr.getY(vi0),
+                uvAttr.getX(vi1), uvAttr.getY(vi1),
+                uvAttr.getX(vi2), uvAttr.getY(vi2),
+              ], samplingMode);
               
               // Multiply texture color by material color (baseColorFactor in glTF)
               faceColor = multiplyColors(textureColor, baseColor);
@@ -282,6 +475,10 @@ export async function extractColorsFromSources(
         const progress = (processedFaces / totalFaces) * 100;
         onProgress?.(progress, `Extraindo cores... ${Math.round(progress)}%`);
         await yieldToUI();
+        if (signal?.aborted) {
+          textureCache.dispose();
+          signal.throwIfAborted();
+        }
       }
     }
   }
@@ -296,22 +493,68 @@ export async function extractColorsFromSources(
   };
 }
 
+/**
+ * Build a point sampler for a material's texture: bilinear lookup at a UV, multiplied by the
+ * material color. Returns null when the material has no decodable texture.
+ */
+export async function createTextureColorSampler(
+  material: THREE.Material
+): Promise<((u: number, v: number) => RGB) | null> {
+  const stdMat = material as THREE.MeshStandardMaterial;
+  if (!stdMat.map) return null;
+
+  const textureCache = new TextureCache();
+  const imageData = await textureCache.getImageData(stdMat.map);
+  textureCache.dispose();
+  if (!imageData) return null;
+
+  const sampler = new TexelSampler(imageData, stdMat.map);
+  const baseColor = stdMat.color ? threeColorToRGB(stdMat.color) : { r: 200, g: 200, b: 200 };
+  return (u, v) => multiplyColors(sampler.bilinear(u, v), baseColor);
+}
+
+/**
+ * Build a texel-footprint variance probe for a material's texture (see TexelSampler.variance).
+ * Returns null when the material has no decodable texture.
+ */
+export async function createTextureVarianceProbe(
+  material: THREE.Material
+): Promise<((uvs: FaceUVs) => number) | null> {
+  const stdMat = material as THREE.MeshStandardMaterial;
+  if (!stdMat.map) return null;
+
+  const textureCache = new TextureCache();
+  const imageData = await textureCache.getImageData(stdMat.map);
+  textureCache.dispose();
+  if (!imageData) return null;
+
+  const sampler = new TexelSampler(imageData, stdMat.map);
+  return (uvs) => sampler.variance(uvs);
+}
+
 /**
  * Re-extract colors for a geometry that has been simplified.
  * Uses UV coordinates to sample from the original texture.
  * This is critical for maintaining color accuracy after simplification.
+ *
+ * Pass the material slots of a combined geometry (see getMaterialSlots) to sample each face
+ * with its own material, texture and vertex colors via the `materialId` attribute.
+ * A single material applies to every face, with vertex colors taking priority when present.
  */
 export async function extractColorsFromGeometry(
   geometry: THREE.BufferGeometry,
-  material: THREE.Material | THREE.Material[],
-  onProgress?: (progress: number, message: string) => void
+  material: THREE.Material | MaterialSlot[],
+  onProgress?: (progress: number, message: string) => void,
+  options: ColorExtractionOptions = {}
 ): Promise<RGB[]> {
+  const { signal, samplingMode = 'centroid' } = options;
   const textureCache = new TextureCache();
   const faceColors: RGB[] = [];
   
   const posAttr = geometry.getAttribute('position');
   const uvAttr = geometry.getAttribute('uv');
   const colorAttr = geometry.getAttribute('color');
+  const materialIdAttr = Array.isArray(material) ? geometry.getAttribute('materialId') : undefined;
   const indexAttr = geometry.getIndex();
   
   if (!posAttr) {
@@ -319,22 +562,28 @@ export async function extractColorsFromGeometry(
     return faceColors;
   }
   
-  // Get the material (use first if array)
-  const mat = Array.isArray(material) ? material[0] : material;
-  const stdMat = mat as THREE.MeshStandardMaterial;
-  const baseColor = stdMat?.color ? threeColorToRGB(stdMat.color) : { r: 200, g: 200, b: 200 };
-  
-  // Load texture if available
-  let imageData: ImageData | null = null;
-  if (stdMat?.map) {
-    imageData = await textureCache.getImageData(stdMat.map);
+  const slots: MaterialSlot[] = Array.isArray(material)
+    ? material
+    : [{ material, vertexColors: !!colorAttr }];
+
+  // Resolve base color and texture once per slot
+  const resolved: { baseColor: RGB; map: THREE.Texture | null; imageData: ImageData | null; vertexColors: boolean }[] = [];
+  for (const slot of slots) {
+    const stdMat = slot.material as THREE.MeshStandardMaterial | null;
+    const map = stdMat?.map ?? null;
+    resolved.push({
+      baseColor: stdMat?.color ? threeColorToRGB(stdMat.color) : stdMat ? { r: 200, g: 200, b: 200 } : { r: 180, g: 180, b: 180 },
+      map,
+      imageData: map ? await textureCache.getImageData(map) : null,
+      vertexColors: slot.vertexColors,
+    });
   }
   
   const faceCount = indexAttr 
     ? indexAttr.count / 3 
     : posAttr.count / 3;
   
-  console.log(`[extractColorsFromGeometry] Processing ${faceCount} faces, hasTexture: ${!!imageData}, hasVertexColors: ${!!colorAttr}`);
+  console.log(`[extractColorsFromGeometry] Processing ${faceCount} faces, slots: ${resolved.length}, textured: ${resolved.filter(r => r.imageData).length}, hasVertexColors: ${!!colorAttr}`);
   
   for (let faceIdx = 0; faceIdx < faceCount; faceIdx++) {
     const base = faceIdx * 3;
@@ -343,11 +592,14 @@ export async function extractColorsFromGeometry(
     const vi0 = indexAttr ? indexAttr.getX(base) : base;
     const vi1 = indexAttr ? indexAttr.getX(base + 1) : base + 1;
     const vi2 = indexAttr ? indexAttr.getX(base + 2) : base + 2;
+
+    // Vertices are never shared between slots, so any corner identifies the face's slot
+    const slot = resolved[materialIdAttr ? Math.round(materialIdAttr.getX(vi0)) : 0] ?? resolved[0];
     
     let faceColor: RGB | null = null;
     
     // Priority 1: Vertex colors
-    if (colorAttr && colorAttr.count > vi2) {
+    if (slot?.vertexColors && colorAttr && colorAttr.count > vi2) {
       const c0 = new THREE.Color(colorAttr.getX(vi0), colorAttr.getY(vi0), colorAttr.getZ(vi0));
       const c1 = new THREE.Color(colorAttr.getX(vi1), colorAttr.getY(vi1), colorAttr.getZ(vi1));
       const c2 = new THREE.Color(colorAttr.getX(vi2), colorAttr.getY(vi2), colorAttr.getZ(vi2));
@@ -362,17 +614,18 @@ export async function extractColorsFromGeometry(
     }
     
     // Priority 2: Texture sampling via UV
-    if (!faceColor && imageData && uvAttr && uvAttr.count > vi2) {
-      const u = (uvAttr.getX(vi0) + uvAttr.getX(vi1) + uvAttr.getX(vi2)) / 3;
-      const v = (uvAttr.getY(vi0) + uvAttr.getY(vi1) + uvAttr.getY(vi2)) / 3;
-      
-      const textureColor = textureCache.sampleTexture(imageData, u, v, stdMat?.map?.flipY ?? true);
-      faceColor = multiplyColors(textureColor, baseColor);
+    if (!faceColor && slot?.imageData && slot.map && uvAttr && uvAttr.count > vi2) {
+      const textureColor = textureCache.sampleFace(slot.imageData, slot.map, [
+        uvAttr.getX(vi0), uvAttr.getY(vi0),
+        uvAttr.getX(vi1), uvAttr.getY(vi1),
+        uvAttr.getX(vi2), uvAttr.getY(vi2),
+      ], samplingMode);
+      faceColor = multiplyColors(textureColor, slot.baseColor);
     }
     
     // Priority 3: Material base color
     if (!faceColor) {
-      faceColor = baseColor;
+      faceColor = slot?.baseColor ?? { r: 180, g: 180, b: 180 };
     }
     
     faceColors.push(faceColor);
@@ -382,6 +635,10 @@ export async function extractColorsFromGeometry(
       const progress = (faceIdx / faceCount) * 100;
       onProgress?.(progress, `Re-extraindo cores... ${Math.round(progress)}%`);
       await yieldToUI();
+      if (signal?.aborted) {
+        textureCache.dispose();
+        signal.throwIfAborted();
+      }
     }
   }
   
@@ -392,35 +649,77 @@ export async function extractColorsFromGeometry(
   return faceColors;
 }
 
+// Slot table plus, for every source, the slot of each of its material indices
+function buildMaterialSlots(sources: MeshSource[]): { slots: MaterialSlot[]; sourceSlots: number[][] } {
+  const slots: MaterialSlot[] = [];
+  const lookup = new Map<string, number>();
+
+  const sourceSlots = sources.map(({ geometry, materials }) => {
+    const vertexColors = !!geometry.getAttribute('color');
+    const sourceMaterials = materials.length > 0 ? materials : [null];
+    return sourceMaterials.map((material) => {
+      const key = `${material?.uuid ?? 'none'}:${vertexColors}`;
+      let slot = lookup.get(key);
+      if (slot === undefined) {
+        slot = slots.length;
+        lookup.set(key, slot);
+        slots.push({ material, vertexColors });
+      }
+      return slot;
+    });
+  });
+
+  return { slots, sourceSlots };
+}
+
+/**
+ * Material slots of the geometry built by combineSourcesToGeometry, indexed by its
+ * `materialId` attribute (for re-extraction after simplification)
+ */
+export function getMaterialSlots(sources: MeshSource[]): MaterialSlot[] {
+  return buildMaterialSlots(sources).slots;
+}
+
 // Convert sources to a single combined INDEXED geometry for further processing
 // This is critical for simplification: meshoptimizer requires indexed geometry with shared vertices
 // Handles negative scale transforms by flipping winding order to avoid inverted faces
+// Each vertex carries the material slot of its faces (`materialId`); vertices shared by faces
+// of different materials are duplicated so the slot is unambiguous
 export function combineSourcesToGeometry(sources: MeshSource[]): THREE.BufferGeometry {
   const allPositions: number[] = [];
   const allNormals: number[] = [];
   const allUvs: number[] = [];
+  const allColors: number[] = [];
+  const allMaterialIds: number[] = [];
   const allIndices: number[] = [];
-  
-  let globalVertexOffset = 0;
 
-  for (const source of sources) {
-    const { geometry, matrixWorld } = source;
+  const { sourceSlots } = buildMaterialSlots(sources);
+  const hasVertexColors = sources.some(source => !!source.geometry.getAttribute('color'));
+  
+  sources.forEach((source, sourceIdx) => {
+    const { geometry, matrixWorld, groups } = source;
     
     const posAttr = geometry.getAttribute('position');
     const normAttr = geometry.getAttribute('normal');
     const uvAttr = geometry.getAttribute('uv');
+    const colorAttr = geometry.getAttribute('color');
     const indexAttr = geometry.getIndex();
 
-    if (!posAttr) continue;
+    if (!posAttr) return;
 
     // Detect negative scale (mirroring) - determinant < 0 means winding needs to be flipped
     const det = matrixWorld.determinant();
     const flipWinding = det < 0;
 
-    const vertexCount = posAttr.count;
-    
-    // First: add all vertices from this mesh (transformed)
-    for (let vi = 0; vi < vertexCount; vi++) {
+    const slots = sourceSlots[sourceIdx];
+    const combinedVertex = new Map<number, number>();
+
+    // Add a source vertex for the given slot (once), transformed
+    const addVertex = (vi: number, slot: number): number => {
+      const key = vi * slots.length + slots.indexOf(slot);
+      const existing = combinedVertex.get(key);
+      if (existing !== undefined) return existing;
+
       // Transform position by matrixWorld
       const pos = new THREE.Vector3(
         posAttr.getX(vi),
@@ -450,50 +749,50 @@ export function combineSourcesToGeometry(sources: MeshSource[]): THREE.BufferGeo
       } else {
         allUvs.push(0, 0);
       }
-    }
 
-    // Second: add indices, adjusted by globalVertexOffset
-    if (indexAttr) {
-      // Source has index buffer - copy indices with offset
-      const faceCount = indexAttr.count / 3;
-      for (let fi = 0; fi < faceCount; fi++) {
-        const base = fi * 3;
-        let i0 = indexAttr.getX(base) + globalVertexOffset;
-        let i1 = indexAttr.getX(base + 1) + globalVertexOffset;
-        let i2 = indexAttr.getX(base + 2) + globalVertexOffset;
-        
-        // Flip winding if needed
-        if (flipWinding) {
-          allIndices.push(i0, i2, i1);
+      if (hasVertexColors) {
+        if (colorAttr && vi < colorAttr.count) {
+          allColors.push(colorAttr.getX(vi), colorAttr.getY(vi), colorAttr.getZ(vi));
         } else {
-          allIndices.push(i0, i1, i2);
+          allColors.push(1, 1, 1);
         }
       }
-    } else {
-      // Non-indexed geometry: create sequential indices
-      const faceCount = vertexCount / 3;
-      for (let fi = 0; fi < faceCount; fi++) {
-        const base = fi * 3;
-        let i0 = base + globalVertexOffset;
-        let i1 = base + 1 + globalVertexOffset;
-        let i2 = base + 2 + globalVertexOffset;
-        
-        // Flip winding if needed
-        if (flipWinding) {
-          allIndices.push(i0, i2, i1);
-        } else {
-          allIndices.push(i0, i1, i2);
-        }
+
+      allMaterialIds.push(slot);
+
+      const index = allMaterialIds.length - 1;
+      combinedVertex.set(key, index);
+      return index;
+    };
+
+    // Add faces (indexed or sequential), with the slot of their group's material
+    const faceCount = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+    for (let fi = 0; fi < faceCount; fi++) {
+      const base = fi * 3;
+      const materialIndex = getGroupMaterialIndex(groups, base);
+      const slot = slots[materialIndex] ?? slots[0];
+
+      const i0 = addVertex(indexAttr ? indexAttr.getX(base) : base, slot);
+      const i1 = addVertex(indexAttr ? indexAttr.getX(base + 1) : base + 1, slot);
+      const i2 = addVertex(indexAttr ? indexAttr.getX(base + 2) : base + 2, slot);
+      
+      // Flip winding if needed
+      if (flipWinding) {
+        allIndices.push(i0, i2, i1);
+      } else {
+        allIndices.push(i0, i1, i2);
       }
     }
-    
-    globalVertexOffset += vertexCount;
-  }
+  });
 
   const combinedGeometry = new THREE.BufferGeometry();
   combinedGeometry.setAttribute('position', new THREE.Float32BufferAttribute(allPositions, 3));
   combinedGeometry.setAttribute('normal', new THREE.Float32BufferAttribute(allNormals, 3));
   combinedGeometry.setAttribute('uv', new THREE.Float32BufferAttribute(allUvs, 2));
+  if (hasVertexColors) {
+    combinedGeometry.setAttribute('color', new THREE.Float32BufferAttribute(allColors, 3));
+  }
+  combinedGeometry.setAttribute('materialId', new THREE.Float32BufferAttribute(allMaterialIds, 1));
   combinedGeometry.setIndex(allIndices);
   combinedGeometry.computeBoundingBox();
 
@@ -501,6 +800,7 @@ export function combineSourcesToGeometry(sources: MeshSource[]): THREE.BufferGeo
     vertices: allPositions.length / 3,
     indices: allIndices.length,
     triangles: allIndices.length / 3,
+    materialSlots: new Set(allMaterialIds).size,
     hasIndex: true
   });
 
@@ -508,13 +808,12 @@ export function combineSourcesToGeometry(sources: MeshSource[]): THREE.BufferGeo
 }
 
 /**
- * Get the first valid material from mesh sources (for re-extraction after simplification)
+ * Texture map of each material slot (see getMaterialSlots), null for untextured and
+ * vertex-colored slots (for texture-preserving export)
  */
-export function getFirstMaterialFromSources(sources: MeshSource[]): THREE.Material | null {
-  for (const source of sources) {
-    if (source.materials && source.materials.length > 0) {
-      return source.materials[0];
-    }
-  }
-  return null;
+export function getSlotTexturesFromSources(sources: MeshSource[]): (THREE.Texture | null)[] {
+  return getMaterialSlots(sources).map(slot => {
+    const map = slot.vertexColors ? null : (slot.material as THREE.MeshStandardMaterial | null)?.map;
+    return map?.image ? map : null;
+  });
 }
@@ -1,4 +1,4 @@
-// Color quantization using median cut algorithm
+// Color quantization using median cut (optionally refined with k-means) in a selectable color space
 
 export interface RGB {
   r: number;
@@ -11,57 +11,248 @@ export interface ColorBucket {
   color: RGB;
 }
 
-function getColorRange(colors: RGB[]): { channel: 'r' | 'g' | 'b'; range: number } {
-  let rMin = 255, rMax = 0;
-  let gMin = 255, gMax = 0;
-  let bMin = 255, bMax = 0;
+/**
+ * Space in which palette colors are built and compared.
+ * - srgb: raw 0-255 channels (legacy behaviour)
+ * - linear: linear-light RGB, 0-1
+ * - lab: CIELAB (D65); nearest-color uses CIEDE2000
+ * - oklab: OKLab; Euclidean distance is already perceptual
+ */
+export type ColorSpace = 'srgb' | 'linear' | 'lab' | 'oklab';
 
-  for (const c of colors) {
-    rMin = Math.min(rMin, c.r);
-    rMax = Math.max(rMax, c.r);
-    gMin = Math.min(gMin, c.g);
-    gMax = Math.max(gMax, c.g);
-    bMin = Math.min(bMin, c.b);
-    bMax = Math.max(bMax, c.b);
-  }
+export interface QuantizeOptions {
+  colorSpace?: ColorSpace;
+  /** Lloyd iterations run after median cut (0 = median cut only) */
+  kMeansIterations?: number;
+}
 
-  const rRange = rMax - rMin;
-  const gRange = gMax - gMin;
-  const bRange = bMax - bMin;
+/** Iterations used when k-means refinement is enabled in the UI */
+export const DEFAULT_KMEANS_ITERATIONS = 10;
 
-  if (rRange >= gRange && rRange >= bRange) return { channel: 'r', range: rRange };
-  if (gRange >= rRange && gRange >= bRange) return { channel: 'g', range: gRange };
-  return { channel: 'b', range: bRange };
+export type Vec3 = [number, number, number];
+
+// ===== COLOR SPACE CONVERSION =====
+
+function srgbToLinear(c: number): number {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
 }
 
-function averageColor(colors: RGB[]): RGB {
-  if (colors.length === 0) return { r: 0, g: 0, b: 0 };
-  
-  let r = 0, g = 0, b = 0;
-  for (const c of colors) {
-    r += c.r;
-    g += c.g;
-    b += c.b;
+function linearToSrgb(v: number): number {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+// CIE constants (D65 white point)
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+const WHITE_X = 0.95047;
+const WHITE_Z = 1.08883;
+
+function labF(t: number): number {
+  return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+}
+
+function labFInverse(f: number): number {
+  const f3 = f * f * f;
+  return f3 > LAB_EPSILON ? f3 : (116 * f - 16) / LAB_KAPPA;
+}
+
+function linearToLab([r, g, b]: Vec3): Vec3 {
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / WHITE_X;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / WHITE_Z;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToLinear([l, a, b]: Vec3): Vec3 {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * WHITE_X;
+  const y = labFInverse(fy);
+  const z = labFInverse(fy - b / 200) * WHITE_Z;
+
+  return [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.9692660 * x + 1.8760108 * y + 0.0415560 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+  ];
+}
+
+function linearToOklab([r, g, b]: Vec3): Vec3 {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+}
+
+function oklabToLinear([L, a, b]: Vec3): Vec3 {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ];
+}
+
+export function toColorSpace(color: RGB, space: ColorSpace): Vec3 {
+  if (space === 'srgb') return [color.r, color.g, color.b];
+
+  const linear: Vec3 = [srgbToLinear(color.r), srgbToLinear(color.g), srgbToLinear(color.b)];
+  if (space === 'lab') return linearToLab(linear);
+  if (space === 'oklab') return linearToOklab(linear);
+  return linear;
+}
+
+export function fromColorSpace(v: Vec3, space: ColorSpace): RGB {
+  if (space === 'srgb') {
+    const clamp = (n: number) => Math.round(Math.min(255, Math.max(0, n)));
+    return { r: clamp(v[0]), g: clamp(v[1]), b: clamp(v[2]) };
   }
-  
-  return {
-    r: Math.round(r / colors.length),
-    g: Math.round(g / colors.length),
-    b: Math.round(b / colors.length),
+
+  const linear = space === 'lab' ? labToLinear(v) : space === 'oklab' ? oklabToLinear(v) : v;
+  return { r: linearToSrgb(linear[0]), g: linearToSrgb(linear[1]), b: linearToSrgb(linear[2]) };
+}
+
+// ===== DISTANCE =====
+
+function squaredDistance(a: Vec3, b: Vec3): number {
+  const d0 = a[0] - b[0];
+  const d1 = a[1] - b[1];
+  const d2 = a[2] - b[2];
+  return d0 * d0 + d1 * d1 + d2 * d2;
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * CIEDE2000 color difference between two CIELAB colors (kL = kC = kH = 1).
+ */
+export function ciede2000(lab1: Vec3, lab2: Vec3): number {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + 6103515625))); // 25^7
+
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+
+  const hueAngle = (b: number, ap: number) => {
+    if (b === 0 && ap === 0) return 0;
+    const h = Math.atan2(b, ap) / DEG;
+    return h >= 0 ? h : h + 360;
   };
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * DEG);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp /= 2;
+    else hbarp = h1p + h2p < 360 ? (hbarp + 360) / 2 : (hbarp - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * DEG)
+    + 0.24 * Math.cos(2 * hbarp * DEG)
+    + 0.32 * Math.cos((3 * hbarp + 6) * DEG)
+    - 0.20 * Math.cos((4 * hbarp - 63) * DEG);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const RC = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + 6103515625));
+  const Lterm = (Lbarp - 50) * (Lbarp - 50);
+  const SL = 1 + (0.015 * Lterm) / Math.sqrt(20 + Lterm);
+  const SC = 1 + 0.045 * Cbarp;
+  const SH = 1 + 0.015 * Cbarp * T;
+  const RT = -Math.sin(2 * dTheta * DEG) * RC;
+
+  const l = dLp / SL;
+  const c = dCp / SC;
+  const h = dHp / SH;
+  return Math.sqrt(l * l + c * c + h * h + RT * c * h);
 }
 
-export function medianCut(colors: RGB[], numColors: number): RGB[] {
-  if (colors.length === 0) return [];
-  if (numColors <= 1) return [averageColor(colors)];
+/**
+ * Distance used for nearest-color assignment in a given space.
+ * sRGB/linear/OKLab use squared Euclidean, CIELAB uses CIEDE2000.
+ */
+export function colorDistance(a: Vec3, b: Vec3, space: ColorSpace): number {
+  return space === 'lab' ? ciede2000(a, b) : squaredDistance(a, b);
+}
+
+// ===== MEDIAN CUT =====
+
+function getColorRange(points: Vec3[]): { channel: 0 | 1 | 2; range: number } {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+  for (const p of points) {
+    for (let c = 0; c < 3; c++) {
+      if (p[c] < min[c]) min[c] = p[c];
+      if (p[c] > max[c]) max[c] = p[c];
+    }
+  }
+
+  const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+
+  if (ranges[0] >= ranges[1] && ranges[0] >= ranges[2]) return { channel: 0, range: ranges[0] };
+  if (ranges[1] >= ranges[0] && ranges[1] >= ranges[2]) return { channel: 1, range: ranges[1] };
+  return { channel: 2, range: ranges[2] };
+}
+
+function averagePoint(points: Vec3[]): Vec3 {
+  if (points.length === 0) return [0, 0, 0];
+
+  let x = 0, y = 0, z = 0;
+  for (const p of points) {
+    x += p[0];
+    y += p[1];
+    z += p[2];
+  }
+
+  return [x / points.length, y / points.length, z / points.length];
+}
 
-  let buckets: RGB[][] = [colors];
+function medianCutPoints(points: Vec3[], numColors: number): Vec3[] {
+  if (numColors <= 1) return [averagePoint(points)];
+
+  const buckets: Vec3[][] = [points];
 
   while (buckets.length < numColors) {
     // Find the bucket with the largest range
     let maxRangeIdx = 0;
     let maxRange = 0;
-    let splitChannel: 'r' | 'g' | 'b' = 'r';
+    let splitChannel: 0 | 1 | 2 = 0;
 
     for (let i = 0; i < buckets.length; i++) {
       if (buckets[i].length < 2) continue;
@@ -86,26 +277,130 @@ export function medianCut(colors: RGB[], numColors: number): RGB[] {
     buckets.splice(maxRangeIdx, 1, bucket1, bucket2);
   }
 
-  return buckets.map(averageColor);
+  return buckets.map(averagePoint);
 }
 
-export function findNearestColor(color: RGB, palette: RGB[]): number {
-  let minDist = Infinity;
-  let nearestIdx = 0;
+export function medianCut(colors: RGB[], numColors: number, space: ColorSpace = 'srgb'): RGB[] {
+  if (colors.length === 0) return [];
 
-  for (let i = 0; i < palette.length; i++) {
-    const dist = 
-      Math.pow(color.r - palette[i].r, 2) +
-      Math.pow(color.g - palette[i].g, 2) +
-      Math.pow(color.b - palette[i].b, 2);
-    
-    if (dist < minDist) {
-      minDist = dist;
-      nearestIdx = i;
+  const points = colors.map(c => toColorSpace(c, space));
+  return medianCutPoints(points, numColors).map(p => fromColorSpace(p, space));
+}
+
+// ===== K-MEANS =====
+
+/**
+ * Lloyd (k-means) refinement of an initial palette, e.g. the median-cut result.
+ * Runs in the given space on de-duplicated, weighted colors; centroids that lose all
+ * their members keep their previous position. Colors are assigned with the same distance
+ * createColorMatcher uses (CIEDE2000 in 'lab'), so the clusters match the final face mapping.
+ */
+export function refinePaletteKMeans(
+  colors: RGB[],
+  palette: RGB[],
+  space: ColorSpace = 'srgb',
+  maxIterations: number = 10
+): RGB[] {
+  if (colors.length === 0 || palette.length === 0 || maxIterations <= 0) return palette;
+
+  // Texture samples repeat a lot; cluster unique colors weighted by occurrence
+  const weights = new Map<number, number>();
+  for (const c of colors) {
+    const key = (c.r << 16) | (c.g << 8) | c.b;
+    weights.set(key, (weights.get(key) || 0) + 1);
+  }
+
+  const points: Vec3[] = [];
+  const pointWeights: number[] = [];
+  for (const [key, weight] of weights) {
+    points.push(toColorSpace({ r: (key >> 16) & 255, g: (key >> 8) & 255, b: key & 255 }, space));
+    pointWeights.push(weight);
+  }
+
+  const centroids = palette.map(c => toColorSpace(c, space));
+  const k = centroids.length;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const sums = Array.from({ length: k }, () => [0, 0, 0, 0]);
+
+    for (let i = 0; i < points.length; i++) {
+      const p = points[i];
+      let best = 0;
+      let bestDist = Infinity;
+      for (let j = 0; j < k; j++) {
+        const d = colorDistance(p, centroids[j], space);
+        if (d < bestDist) {
+          bestDist = d;
+          best = j;
+        }
+      }
+      const w = pointWeights[i];
+      const sum = sums[best];
+      sum[0] += p[0] * w;
+      sum[1] += p[1] * w;
+      sum[2] += p[2] * w;
+      sum[3] += w;
     }
+
+    let moved = 0;
+    for (let j = 0; j < k; j++) {
+      const [x, y, z, w] = sums[j];
+      if (w === 0) continue;
+      const next: Vec3 = [x / w, y / w, z / w];
+      moved = Math.max(moved, squaredDistance(next, centroids[j]));
+      centroids[j] = next;
+    }
+
+    // Converged: no centroid moved noticeably
+    if (moved < 1e-10) break;
   }
 
-  return nearestIdx;
+  return centroids.map(c => fromColorSpace(c, space));
+}
+
+/**
+ * Median cut seeded palette, optionally refined with k-means, built in the given space.
+ */
+export function quantizeColors(colors: RGB[], numColors: number, options: QuantizeOptions = {}): RGB[] {
+  const space = options.colorSpace ?? 'srgb';
+  const palette = medianCut(colors, numColors, space);
+  return refinePaletteKMeans(colors, palette, space, options.kMeansIterations ?? 0);
+}
+
+// ===== NEAREST COLOR =====
+
+/**
+ * Build a nearest-palette-color lookup for a space. Palette conversion happens once and
+ * results are cached per RGB value, so it is cheap to call for every face.
+ */
+export function createColorMatcher(palette: RGB[], space: ColorSpace = 'srgb'): (color: RGB) => number {
+  const converted = palette.map(c => toColorSpace(c, space));
+  const cache = new Map<number, number>();
+
+  return (color: RGB) => {
+    const key = (color.r << 16) | (color.g << 8) | color.b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const v = toColorSpace(color, space);
+    let minDist = Infinity;
+    let nearestIdx = 0;
+
+    for (let i = 0; i < converted.length; i++) {
+      const dist = colorDistance(v, converted[i], space);
+      if (dist < minDist) {
+        minDist = dist;
+        nearestIdx = i;
+      }
+    }
+
+    cache.set(key, nearestIdx);
+    return nearestIdx;
+  };
+}
+
+export function findNearestColor(color: RGB, palette: RGB[], space: ColorSpace = 'srgb'): number {
+  return createColorMatcher(palette, space)(color);
 }
 
 export function rgbToHex(color: RGB): string {
@@ -0,0 +1,78 @@
+// Interleaved corner buffers for the mesh refiners: every vertex attribute of the input
+// (position first) is carried through the splits, so colors and material slots survive them
+import * as THREE from 'three';
+
+/** Where each vertex attribute sits in an interleaved corner */
+export interface CornerLayout {
+  stride: number;
+  attributes: { name: string; itemSize: number; offset: number }[];
+  /** Offset of each named attribute, or -1 when the input has none */
+  normal: number;
+  uv: number;
+  materialId: number;
+}
+
+export function getCornerLayout(geometry: THREE.BufferGeometry): CornerLayout {
+  const names = ['position', ...Object.keys(geometry.attributes).filter(name => name !== 'position')];
+  const attributes: CornerLayout['attributes'] = [];
+  let stride = 0;
+  for (const name of names) {
+    const itemSize = geometry.getAttribute(name).itemSize;
+    attributes.push({ name, itemSize, offset: stride });
+    stride += itemSize;
+  }
+
+  const offsetOf = (name: string) => attributes.find(a => a.name === name)?.offset ?? -1;
+  return { stride, attributes, normal: offsetOf('normal'), uv: offsetOf('uv'), materialId: offsetOf('materialId') };
+}
+
+export function readCorners(geometry: THREE.BufferGeometry, layout: CornerLayout): Float32Array {
+  const count = geometry.getAttribute('position').count;
+  const corners = new Float32Array(count * layout.stride);
+
+  for (const { name, itemSize, offset } of layout.attributes) {
+    // getX..getW also cover interleaved attributes, which have no getComponent
+    const attr = geometry.getAttribute(name);
+    const components = [attr.getX, attr.getY, attr.getZ, attr.getW].slice(0, itemSize);
+    for (let i = 0; i < count; i++) {
+      components.forEach((get, k) => {
+        corners[i * layout.stride + offset + k] = get.call(attr, i);
+      });
+    }
+  }
+
+  return corners;
+}
+
+/** Weld corners by position so edges shared between faces get the same id */
+export function weldCorners(corners: Float32Array, stride: number): Uint32Array {
+  const ids = new Uint32Array(corners.length / stride);
+  const lookup = new Map<string, number>();
+
+  for (let i = 0; i < ids.length; i++) {
+    const o = i * stride;
+    const key = `${Math.round(corners[o] * 1e5)},${Math.round(corners[o + 1] * 1e5)},${Math.round(corners[o + 2] * 1e5)}`;
+    let id = lookup.get(key);
+    if (id === undefined) {
+      id = lookup.size;
+      lookup.set(key, id);
+    }
+    ids[i] = id;
+  }
+
+  return ids;
+}
+
+/** Triangle soup geometry with one attribute per layout entry */
+export function buildCornerGeometry(corners: Float32Array, layout: CornerLayout): THREE.BufferGeometry {
+  const count = corners.length / layout.stride;
+  const geometry = new THREE.BufferGeometry();
+  for (const { name, itemSize, offset } of layout.attributes) {
+    const values = new Float32Array(count * itemSize);
+    for (let i = 0; i < count; i++) {
+      values.set(corners.subarray(i * layout.stride + offset, i * layout.stride + offset + itemSize), i * itemSize);
+    }
+    geometry.setAttribute(name, new THREE.BufferAttribute(values, itemSize));
+  }
+  return geometry;
+}
@@ -2,17 +2,86 @@ import JSZip from 'jszip';
 import * as THREE from 'three';
 import { ExportData } from './meshProcessor';
 import { rgbToHex, RGB } from './colorQuantization';
+import { Filament, assignExtruders, getFilamentDisplayName } from './filamentLibrary';
+import { BedSize, DEFAULT_BED_SIZE, computeBedPlacement } from './modelTransform';
 
 // Maximum recommended triangles for OrcaSlicer compatibility
 export const MAX_TRIANGLES_WARNING = 500000;
 export const MAX_TRIANGLES_LIMIT = 1000000;
 
+/**
+ * Layout of the generated model file:
+ * - flat: one top-level object (and build item) per color
+ * - multi_volume: one object whose mesh is split into one volume per color
+ * - painted: one watertight mesh with per-triangle multi-material painting (slic3rpe:mmu_segmentation)
+ * - materials: one mesh whose triangles reference a 3MF Materials resource through pid/p1
+ * - bambu: Bambu Studio project (one assembly object with one part per color, plate and filament settings)
+ * - texture: one mesh that keeps the source texture (m:texture2d) and per-vertex UVs, for full-color printers
+ */
+export type ExportMode = 'flat' | 'multi_volume' | 'painted' | 'materials' | 'bambu' | 'texture';
+
+/** Palette resource written by the 'materials' mode */
+export type MaterialResource = 'basematerials' | 'colorgroup';
+
+export interface ExportOptions {
+  mode?: ExportMode;
+  /** Only used by the 'materials' mode (default: basematerials) */
+  materialResource?: MaterialResource;
+  /** The model is centered on this bed and dropped to Z=0 through the build item transform */
+  bedSize?: BedSize;
+  /** Cancels the export between packaging steps */
+  signal?: AbortSignal;
+}
+
+const EXPORT_MODE_LABELS: Record<ExportMode, string> = {
+  flat: 'Flat Structure (trimesh compatible)',
+  multi_volume: 'Multi-Volume (single object, one volume per color)',
+  painted: 'Painted (single mesh, slic3rpe:mmu_segmentation)',
+  materials: 'Materials Extension (single mesh, pid/p1)',
+  bambu: 'Bambu Studio Project (one object, one part per color, AMS filaments)',
+  texture: 'Texture (single mesh, m:texture2d + per-vertex UVs)',
+};
+
+const SLIC3RPE_NAMESPACE = 'http://schemas.slic3r.org/3mf/2017/06';
+const MATERIAL_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/material/2015/02';
+const BAMBU_NAMESPACE = 'http://schemas.bambulab.com/package/2021';
+
+// Bambu Studio only reads project_settings.config (filament colors) from files whose
+// Application metadata starts with "BambuStudio-"
+const BAMBU_APPLICATION = 'BambuStudio-01.09.00.70';
+const BAMBU_OBJECTS_PATH = '3D/Objects/object_1.model';
+const TEXTURE_FOLDER = '3D/Textures';
+
+interface ObjectStat {
+  colorIndex: number;
+  color: string;
+  vertices: number;
+  triangles: number;
+}
+
+/** Where the build item puts the model: its transform and the resulting box on the bed */
+interface BuildPlacement {
+  transform: string;
+  box: THREE.Box3;
+}
+
+/** Triangle range of a volume inside a single object (inclusive, as in Slic3r_PE_model.config) */
+interface VolumeRange {
+  name: string;
+  extruder: number;
+  firstId: number;
+  lastId: number;
+}
+
 export interface ExportReport {
+  mode: ExportMode;
   totalTriangles: number;
   totalVertices: number;
   palette: string[];
+  /** Filament name per palette entry, when the palette comes from the filament library */
+  filamentNames?: string[];
   colorDistribution: { color: string; count: number; percentage: number }[];
-  objectStats: { colorIndex: number; color: string; vertices: number; triangles: number }[];
+  objectStats: ObjectStat[];
   files: { path: string; size: number }[];
   validation: ValidationResult;
   fileStructure: string;
@@ -37,8 +106,13 @@ function generateUUID(seed: number): string {
 
 /**
  * Validate XML is well-formed using DOMParser.
+ * DOMParser does not exist inside Web Workers; there a tag-balance check is used instead.
  */
 function validateXmlWellFormed(xml: string, filename: string): { valid: boolean; error?: string } {
+  if (typeof DOMParser === 'undefined') {
+    return checkTagBalance(xml);
+  }
+
   try {
     const parser = new DOMParser();
     const doc = parser.parseFromString(xml, 'application/xml');
@@ -52,6 +126,40 @@ function validateXmlWellFormed(xml: string, filename: string): { valid: boolean;
   }
 }
 
+/**
+ * Lightweight well-formedness check: every opening tag must be closed in order.
+ */
+function checkTagBalance(xml: string): { valid: boolean; error?: string } {
+  const stack: string[] = [];
+  const tagRegex = /<(\/?)([A-Za-z_][\w:.-]*)[^>]*?(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(xml)) !== null) {
+    const [, closing, name, selfClosing] = match;
+    if (selfClosing) continue;
+    if (!closing) {
+      stack.push(name);
+    } else if (stack.pop() !== name) {
+      return { valid: false, error: `Unexpected closing tag </${name}> at offset ${match.index}` };
+    }
+  }
+
+  if (stack.length > 0) {
+    return { valid: false, error: `Unclosed tag <${stack[stack.length - 1]}>` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Count opening tags of an element (without building a DOM, so large models stay cheap).
+ */
+function countElements(xml: string, tag: string): number {
+  const regex = new RegExp(`<${tag}[\\s/>]`, 'g');
+  let count = 0;
+  while (regex.exec(xml) !== null) count++;
+  return count;
+}
+
 /**
  * Validate the 3MF structure (flat format - trimesh style).
  */
@@ -106,26 +214,42 @@ async function validate3MFStructure(zip: JSZip): Promise<ValidationResult> {
     if (!parseResult.valid) {
       errors.push(`ERRO: ${modelPath} XML inválido: ${parseResult.error}`);
     } else {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(modelContent, 'application/xml');
-
       // Count objects
-      const objects = doc.querySelectorAll('object');
-      geometryStats.objectCount = objects.length;
+      const objectCount = countElements(modelContent, 'object');
+      geometryStats.objectCount = objectCount;
 
-      if (objects.length === 0) {
+      if (objectCount === 0) {
         errors.push(`ERRO: ${modelPath} não contém <object>`);
       }
 
-      // Count total vertices and triangles across all objects
-      const meshes = doc.querySelectorAll('mesh');
-      let totalVerts = 0;
-      let totalTris = 0;
+      // Count total vertices and triangles across all model parts
+      // (object files referenced through components, as in Bambu Studio projects, included)
+      let totalVerts = countElements(modelContent, 'vertex');
+      let totalTris = countElements(modelContent, 'triangle');
 
-      meshes.forEach(mesh => {
-        totalVerts += mesh.querySelectorAll('vertex').length;
-        totalTris += mesh.querySelectorAll('triangle').length;
-      });
+      const componentPaths = new Set<string>();
+      const componentRegex = /<component\b[^>]*\bp:path="([^"]+)"/g;
+      let componentMatch: RegExpExecArray | null;
+      while ((componentMatch = componentRegex.exec(modelContent)) !== null) {
+        componentPaths.add(componentMatch[1].replace(/^\//, ''));
+      }
+
+      for (const path of componentPaths) {
+        const partFile = zip.file(path);
+        if (!partFile) {
+          errors.push(`ERRO: componente aponta para ${path}, que não existe no ZIP`);
+          continue;
+        }
+        const partContent = await partFile.async('string');
+        const partParse = validateXmlWellFormed(partContent, path);
+        xmlParseResults.push({ file: path, ...partParse });
+        if (!partParse.valid) {
+          errors.push(`ERRO: ${path} XML inválido: ${partParse.error}`);
+          continue;
+        }
+        totalVerts += countElements(partContent, 'vertex');
+        totalTris += countElements(partContent, 'triangle');
+      }
 
       geometryStats.totalVertices = totalVerts;
       geometryStats.totalTriangles = totalTris;
@@ -135,8 +259,7 @@ async function validate3MFStructure(zip: JSZip): Promise<ValidationResult> {
       }
 
       // Check build items
-      const buildItems = doc.querySelectorAll('build item');
-      if (buildItems.length === 0) {
+      if (countElements(modelContent, 'item') === 0) {
         errors.push(`ERRO: ${modelPath} não contém <item> em <build>`);
       }
     }
@@ -146,14 +269,26 @@ async function validate3MFStructure(zip: JSZip): Promise<ValidationResult> {
 }
 
 /**
- * Export to 3MF with flat structure (trimesh compatible).
- * Each color becomes a separate object in the same model file.
+ * Export to 3MF.
+ * In flat mode (default) each color becomes a separate object in the same model file;
+ * in multi_volume mode the model is a single object with one volume per color.
  */
 export async function export3MF(
   exportData: ExportData,
-  filename: string = 'model'
+  filename: string = 'model',
+  options: ExportOptions = {}
 ): Promise<{ blob: Blob; report: ExportReport }> {
   const { geometry, faceColorIndices, palette } = exportData;
+  const mode = options.mode ?? 'flat';
+  const { signal } = options;
+  signal?.throwIfAborted();
+
+  if (mode === 'texture' && (!exportData.textures?.some(Boolean) || !geometry.getAttribute('uv'))) {
+    throw new Error('O modo textura requer um modelo texturizado com coordenadas UV');
+  }
+
+  const placement = computeBuildPlacement(geometry, options.bedSize ?? DEFAULT_BED_SIZE);
+  const extruders = assignExtruders(palette.length, exportData.filaments);
 
   // Extract base name without extension
   const baseName = filename.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '_') || 'model';
@@ -175,17 +310,18 @@ export async function export3MF(
       percentage: (count / triCount) * 100,
     }));
 
-  console.log(`[export3MF] Mode: flat (trimesh style), BaseName: ${baseName}`);
+  console.log(`[export3MF] Mode: ${mode}, BaseName: ${baseName}`);
   console.log('[export3MF] Colors:', palette.length, palette.map(c => rgbToHex(c)));
   console.log('[export3MF] Total triangles:', triCount);
 
-  // ===== FILE STRUCTURE (Flat - trimesh compatible) =====
+  // ===== FILE STRUCTURE =====
 
   // 1. [Content_Types].xml
   const contentTypes = `<?xml version="1.0" encoding="UTF-8"?>
 <Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
   <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
-  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>${mode === 'texture' ? `
+  <Default Extension="png" ContentType="image/png"/>` : ''}
 </Types>`;
   zip.file('[Content_Types].xml', contentTypes);
 
@@ -200,23 +336,85 @@ export async function export3MF(
   // 3. Create 3D folder
   zip.folder('3D');
 
-  // 4. 3D/3dmodel.model (FLAT STRUCTURE - all geometry here)
-  const { xml: modelXml, objectStats } = buildFlatModel(geometry, faceColorIndices, palette, baseName);
+  // 4. 3D/3dmodel.model (plus any referenced parts)
+  let modelXml: string;
+  let objectStats: ObjectStat[];
+  let modelConfig: string | null;
+  let extraFiles: { path: string; content: string | Uint8Array }[] = [];
+
+  if (mode === 'multi_volume') {
+    const built = buildMultiVolumeModel(geometry, faceColorIndices, palette, extruders, baseName, placement);
+    modelXml = built.xml;
+    objectStats = built.objectStats;
+    modelConfig = buildMultiVolumeModelConfig(baseName, built.volumes);
+  } else if (mode === 'painted') {
+    const built = buildPaintedModel(geometry, faceColorIndices, palette, extruders, baseName, placement);
+    modelXml = built.xml;
+    objectStats = built.objectStats;
+    modelConfig = buildMultiVolumeModelConfig(baseName, [
+      { name: baseName, extruder: extruders[0] ?? 1, firstId: 0, lastId: triCount - 1 },
+    ]);
+  } else if (mode === 'materials') {
+    const built = buildMaterialsModel(
+      geometry,
+      faceColorIndices,
+      palette,
+      baseName,
+      options.materialResource ?? 'basematerials',
+      placement
+    );
+    modelXml = built.xml;
+    objectStats = built.objectStats;
+    // Colors live in the model itself; there are no Slic3r volumes to configure
+    modelConfig = null;
+  } else if (mode === 'bambu') {
+    const built = buildBambuProject(geometry, faceColorIndices, palette, extruders, baseName, placement, exportData.filaments);
+    modelXml = built.xml;
+    objectStats = built.objectStats;
+    extraFiles = built.files;
+    modelConfig = null;
+  } else if (mode === 'texture') {
+    const built = buildTextureModel(geometry, faceColorIndices, palette, baseName, exportData.textures!, placement);
+    modelXml = built.xml;
+    objectStats = built.objectStats;
+    extraFiles = [];
+    for (const { path, texture } of built.images) {
+      extraFiles.push({ path, content: await encodeTexturePng(texture) });
+      signal?.throwIfAborted();
+    }
+    extraFiles.push({ path: '3D/_rels/3dmodel.model.rels', content: buildTextureRels(built.images.map(image => image.path)) });
+    modelConfig = null;
+  } else {
+    const built = buildFlatModel(geometry, faceColorIndices, palette, baseName, placement);
+    modelXml = built.xml;
+    objectStats = built.objectStats;
+    modelConfig = buildModelConfig(objectStats, extruders);
+  }
   zip.file('3D/3dmodel.model', modelXml);
+  signal?.throwIfAborted();
 
   // 5. Metadata folder with slicer configs
   zip.folder('Metadata');
 
-  // Slic3r_PE.config (filament colors)
-  const slicerConfig = buildSlicerPEConfig(palette);
-  zip.file('Metadata/Slic3r_PE.config', slicerConfig);
+  // Mode-specific parts (object files, relationships, project settings)
+  for (const file of extraFiles) {
+    zip.file(file.path, file.content);
+  }
 
-  // Slic3r_PE_model.config (object configs)
-  const modelConfig = buildModelConfig(palette);
-  zip.file('Metadata/Slic3r_PE_model.config', modelConfig);
+  // Slic3r_PE.config (filament colors) - Bambu projects carry their own project_settings.config
+  if (mode !== 'bambu') {
+    const slicerConfig = buildSlicerPEConfig(getExtruderFilaments(palette, extruders, exportData.filaments));
+    zip.file('Metadata/Slic3r_PE.config', slicerConfig);
+  }
+
+  // Slic3r_PE_model.config (object/volume configs)
+  if (modelConfig) {
+    zip.file('Metadata/Slic3r_PE_model.config', modelConfig);
+  }
 
   // ===== VALIDATION =====
   const validation = await validate3MFStructure(zip);
+  signal?.throwIfAborted();
 
   if (!validation.valid) {
     console.error('[export3MF] Validation FAILED:', validation.errors);
@@ -231,16 +429,18 @@ export async function export3MF(
   const zipFiles = zip.files;
   for (const [path, file] of Object.entries(zipFiles)) {
     if (!file.dir) {
-      const content = await file.async('string');
+      const content = await file.async('uint8array');
       fileList.push({ path, size: content.length });
     }
   }
 
   // ===== BUILD REPORT =====
   const report: ExportReport = {
+    mode,
     totalTriangles: triCount,
     totalVertices: validation.geometryStats.totalVertices,
     palette: palette.map(c => rgbToHex(c)),
+    filamentNames: exportData.filaments?.map(getFilamentDisplayName),
     colorDistribution,
     objectStats,
     files: fileList,
@@ -253,28 +453,41 @@ export async function export3MF(
   const reportText = buildDiagnosticReport(report);
   zip.file('Metadata/3DTextureConverter_report.txt', reportText);
 
+  signal?.throwIfAborted();
   const blob = await zip.generateAsync({ type: 'blob', mimeType: 'model/3mf' });
+  signal?.throwIfAborted();
   return { blob, report };
 }
 
 /**
- * Build flat model XML with multiple objects (one per color).
- * This is the trimesh-compatible format that works with OrcaSlicer.
+ * Center the model on the bed and drop it to Z=0. The mesh keeps its own coordinates;
+ * the translation goes into the build item transform.
  */
-function buildFlatModel(
+function computeBuildPlacement(geometry: THREE.BufferGeometry, bedSize: BedSize): BuildPlacement {
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+  const box = positions ? new THREE.Box3().setFromBufferAttribute(positions) : new THREE.Box3(new THREE.Vector3(), new THREE.Vector3());
+  const offset = computeBedPlacement(box, bedSize);
+
+  return {
+    transform: `1 0 0 0 1 0 0 0 1 ${offset.x.toFixed(6)} ${offset.y.toFixed(6)} ${offset.z.toFixed(6)}`,
+    box: box.clone().translate(offset),
+  };
+}
+
+/**
+ * Group triangle positions by palette index.
+ * Each triangle is stored as 9 values: x1,y1,z1,x2,y2,z2,x3,y3,z3
+ */
+function groupTrianglesByColor(
   geometry: THREE.BufferGeometry,
-  faceColorIndices: number[],
-  palette: RGB[],
-  baseName: string
-): { xml: string; objectStats: { colorIndex: number; color: string; vertices: number; triangles: number }[] } {
+  faceColorIndices: number[]
+): Map<number, number[][]> {
   const positions = geometry.getAttribute('position');
-  if (!positions) return { xml: '', objectStats: [] };
+  const trianglesByColor: Map<number, number[][]> = new Map();
+  if (!positions) return trianglesByColor;
 
   const triCount = positions.count / 3;
 
-  // Group triangles by color
-  const trianglesByColor: Map<number, number[][]> = new Map();
-
   for (let i = 0; i < triCount; i++) {
     const colorIdx = faceColorIndices[i] ?? 0;
 
@@ -294,50 +507,51 @@ function buildFlatModel(
     trianglesByColor.get(colorIdx)!.push(tri);
   }
 
-  // Build objects for each color
-  const objects: string[] = [];
-  const buildItems: string[] = [];
-  const objectStats: { colorIndex: number; color: string; vertices: number; triangles: number }[] = [];
-  let objectId = 1;
-
-  // Sort by color index for consistent output
-  const sortedColors = Array.from(trianglesByColor.keys()).sort((a, b) => a - b);
-
-  for (const colorIdx of sortedColors) {
-    const triangleData = trianglesByColor.get(colorIdx)!;
-    const color = palette[colorIdx];
-    const hex = rgbToHex(color);
-    const objectName = `Cor_${colorIdx + 1}`;
-
-    const vertices: string[] = [];
-    const triangles: string[] = [];
-    const vertexMap = new Map<string, number>();
-    let vertexIndex = 0;
+  return trianglesByColor;
+}
 
-    // Each triangle has 9 values: x1,y1,z1,x2,y2,z2,x3,y3,z3
-    for (const tri of triangleData) {
-      const indices: number[] = [];
-
-      for (let v = 0; v < 3; v++) {
-        const x = tri[v * 3].toFixed(6);
-        const y = tri[v * 3 + 1].toFixed(6);
-        const z = tri[v * 3 + 2].toFixed(6);
-        const key = `${x},${y},${z}`;
-
-        if (!vertexMap.has(key)) {
-          vertexMap.set(key, vertexIndex);
-          vertices.push(`        <vertex x="${x}" y="${y}" z="${z}"/>`);
-          vertexIndex++;
-        }
-        indices.push(vertexMap.get(key)!);
+/**
+ * Deduplicates vertices by their serialized coordinates and collects <vertex> lines.
+ */
+function createVertexPool() {
+  const vertices: string[] = [];
+  const vertexMap = new Map<string, number>();
+
+  return {
+    vertices,
+    add(x: number, y: number, z: number): number {
+      const xs = x.toFixed(6);
+      const ys = y.toFixed(6);
+      const zs = z.toFixed(6);
+      const key = `${xs},${ys},${zs}`;
+
+      let index = vertexMap.get(key);
+      if (index === undefined) {
+        index = vertices.length;
+        vertexMap.set(key, index);
+        vertices.push(`        <vertex x="${xs}" y="${ys}" z="${zs}"/>`);
       }
+      return index;
+    },
+  };
+}
 
-      triangles.push(`        <triangle v1="${indices[0]}" v2="${indices[1]}" v3="${indices[2]}"/>`);
-    }
-
-    const uuid = generateUUID(objectId);
+function addTriangleToPool(pool: ReturnType<typeof createVertexPool>, tri: number[]): number[] {
+  const indices: number[] = [];
+  for (let v = 0; v < 3; v++) {
+    indices.push(pool.add(tri[v * 3], tri[v * 3 + 1], tri[v * 3 + 2]));
+  }
+  return indices;
+}
 
-    objects.push(`    <object id="${objectId}" name="${objectName}" type="model" p:UUID="${uuid}">
+function buildMeshObjectXml(
+  id: number,
+  name: string,
+  vertices: string[],
+  triangles: string[],
+  attributes: string = ''
+): string {
+  return `    <object id="${id}" name="${escapeXml(name)}" type="model"${attributes} p:UUID="${generateUUID(id)}">
       <mesh>
         <vertices>
 ${vertices.join('\n')}
@@ -346,46 +560,567 @@ ${vertices.join('\n')}
 ${triangles.join('\n')}
         </triangles>
       </mesh>
-    </object>`);
+    </object>`;
+}
 
-    // Identity transform matrix: 1 0 0 0 1 0 0 0 1 0 0 0
-    const itemUuid = generateUUID(1000 + objectId);
-    buildItems.push(`    <item objectid="${objectId}" transform="1 0 0 0 1 0 0 0 1 0 0 0" p:UUID="${itemUuid}"/>`);
+/**
+ * Collect all triangles into one welded mesh, keeping the original triangle order.
+ * `triangleAttributes` returns extra XML attributes for a triangle (given its palette index and triangle index).
+ */
+function buildSingleMesh(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  triangleAttributes: (colorIdx: number, triangleIdx: number) => string
+): { vertices: string[]; triangles: string[]; objectStats: ObjectStat[] } {
+  const positions = geometry.getAttribute('position');
+  const triCount = positions.count / 3;
+  const pool = createVertexPool();
+  const triangles: string[] = [];
+  const statsByColor = new Map<number, { triangles: number; vertices: Set<number> }>();
 
-    objectStats.push({
-      colorIndex: colorIdx,
-      color: hex,
-      vertices: vertices.length,
-      triangles: triangles.length,
-    });
+  for (let i = 0; i < triCount; i++) {
+    const colorIdx = faceColorIndices[i] ?? 0;
+    const indices: number[] = [];
+    for (let v = 0; v < 3; v++) {
+      const idx = i * 3 + v;
+      indices.push(pool.add(positions.getX(idx), positions.getY(idx), positions.getZ(idx)));
+    }
 
-    objectId++;
+    triangles.push(`        <triangle v1="${indices[0]}" v2="${indices[1]}" v3="${indices[2]}"${triangleAttributes(colorIdx, i)}/>`);
+
+    if (!statsByColor.has(colorIdx)) {
+      statsByColor.set(colorIdx, { triangles: 0, vertices: new Set() });
+    }
+    const stats = statsByColor.get(colorIdx)!;
+    stats.triangles++;
+    indices.forEach(vi => stats.vertices.add(vi));
   }
 
+  const objectStats: ObjectStat[] = Array.from(statsByColor.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([colorIdx, stats]) => ({
+      colorIndex: colorIdx,
+      color: rgbToHex(palette[colorIdx]),
+      vertices: stats.vertices.size,
+      triangles: stats.triangles,
+    }));
+
+  return { vertices: pool.vertices, triangles, objectStats };
+}
+
+/**
+ * Wrap resources (objects, materials) and build items in a <model> document.
+ * `namespaces` adds xmlns declarations (e.g. 'slic3rpe="..."'), `metadata` adds extra <metadata> lines.
+ */
+function buildModelXml(
+  baseName: string,
+  resources: string[],
+  buildItems: string[],
+  extras: { namespaces?: string[]; metadata?: string[]; application?: string; requiredExtensions?: string } = {}
+): string {
   const buildUuid = generateUUID(9999);
+  const namespaces = (extras.namespaces || []).map(ns => `\n       xmlns:${ns}`).join('');
+  const required = extras.requiredExtensions ? ` requiredextensions="${extras.requiredExtensions}"` : '';
+  const metadata = (extras.metadata || []).map(m => `\n  ${m}`).join('');
 
-  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+  return `<?xml version="1.0" encoding="UTF-8"?>
 <model unit="millimeter" xml:lang="en-US"
        xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02"
-       xmlns:p="http://schemas.microsoft.com/3dmanufacturing/production/2015/06">
+       xmlns:p="http://schemas.microsoft.com/3dmanufacturing/production/2015/06"${namespaces}${required}>
   <metadata name="Title">${escapeXml(baseName)}</metadata>
-  <metadata name="Application">3D Texture Converter</metadata>
+  <metadata name="Application">${escapeXml(extras.application || '3D Texture Converter')}</metadata>${metadata}
   <resources>
-${objects.join('\n')}
+${resources.join('\n')}
   </resources>
   <build p:UUID="${buildUuid}">
 ${buildItems.join('\n')}
   </build>
 </model>`;
+}
+
+/**
+ * Build one mesh object per color, with object ids starting at 1 in palette order.
+ */
+function buildColorObjects(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[]
+): { objects: string[]; objectIds: number[]; objectStats: ObjectStat[] } {
+  const trianglesByColor = groupTrianglesByColor(geometry, faceColorIndices);
+
+  const objects: string[] = [];
+  const objectIds: number[] = [];
+  const objectStats: ObjectStat[] = [];
+  let objectId = 1;
+
+  // Sort by color index for consistent output
+  const sortedColors = Array.from(trianglesByColor.keys()).sort((a, b) => a - b);
+
+  for (const colorIdx of sortedColors) {
+    const triangleData = trianglesByColor.get(colorIdx)!;
+    const hex = rgbToHex(palette[colorIdx]);
+    const objectName = `Cor_${colorIdx + 1}`;
+
+    const pool = createVertexPool();
+    const triangles: string[] = [];
+
+    for (const tri of triangleData) {
+      const indices = addTriangleToPool(pool, tri);
+      triangles.push(`        <triangle v1="${indices[0]}" v2="${indices[1]}" v3="${indices[2]}"/>`);
+    }
+
+    objects.push(buildMeshObjectXml(objectId, objectName, pool.vertices, triangles));
+    objectIds.push(objectId);
+
+    objectStats.push({
+      colorIndex: colorIdx,
+      color: hex,
+      vertices: pool.vertices.length,
+      triangles: triangles.length,
+    });
+
+    objectId++;
+  }
+
+  return { objects, objectIds, objectStats };
+}
+
+/**
+ * Build flat model XML with multiple objects (one per color).
+ * This is the trimesh-compatible format that works with OrcaSlicer.
+ */
+function buildFlatModel(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  baseName: string,
+  placement: BuildPlacement
+): { xml: string; objectStats: ObjectStat[] } {
+  if (!geometry.getAttribute('position')) return { xml: '', objectStats: [] };
+
+  const { objects, objectIds, objectStats } = buildColorObjects(geometry, faceColorIndices, palette);
+
+  // Every color object shares the model's coordinates, so they all get the same placement
+  const buildItems = objectIds.map(objectId =>
+    `    <item objectid="${objectId}" transform="${placement.transform}" p:UUID="${generateUUID(1000 + objectId)}"/>`
+  );
+
+  return { xml: buildModelXml(baseName, objects, buildItems), objectStats };
+}
+
+/**
+ * Build a single-object model whose triangles are ordered by color.
+ * Each contiguous triangle range becomes a volume in Slic3r_PE_model.config,
+ * so PrusaSlicer/OrcaSlicer load one object with one part per color.
+ */
+function buildMultiVolumeModel(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  extruders: number[],
+  baseName: string,
+  placement: BuildPlacement
+): { xml: string; objectStats: ObjectStat[]; volumes: VolumeRange[] } {
+  if (!geometry.getAttribute('position')) return { xml: '', objectStats: [], volumes: [] };
+
+  const trianglesByColor = groupTrianglesByColor(geometry, faceColorIndices);
+  const sortedColors = Array.from(trianglesByColor.keys()).sort((a, b) => a - b);
+
+  const pool = createVertexPool();
+  const triangles: string[] = [];
+  const volumes: VolumeRange[] = [];
+  const objectStats: ObjectStat[] = [];
+
+  for (const colorIdx of sortedColors) {
+    const triangleData = trianglesByColor.get(colorIdx)!;
+    const firstId = triangles.length;
+    const usedVertices = new Set<number>();
+
+    for (const tri of triangleData) {
+      const indices = addTriangleToPool(pool, tri);
+      indices.forEach(i => usedVertices.add(i));
+      triangles.push(`        <triangle v1="${indices[0]}" v2="${indices[1]}" v3="${indices[2]}"/>`);
+    }
+
+    volumes.push({
+      name: `Cor_${colorIdx + 1}`,
+      extruder: extruders[colorIdx],
+      firstId,
+      lastId: triangles.length - 1,
+    });
+    objectStats.push({
+      colorIndex: colorIdx,
+      color: rgbToHex(palette[colorIdx]),
+      vertices: usedVertices.size,
+      triangles: triangleData.length,
+    });
+  }
+
+  const objects = [buildMeshObjectXml(1, baseName, pool.vertices, triangles)];
+
+  const buildItems = [
+    `    <item objectid="1" transform="${placement.transform}" p:UUID="${generateUUID(1001)}"/>`,
+  ];
+
+  return { xml: buildModelXml(baseName, objects, buildItems), objectStats, volumes };
+}
+
+/**
+ * Encode a whole-triangle paint state in the TriangleSelector format used by
+ * PrusaSlicer/OrcaSlicer. The string is a reversed list of hex nibbles: the low two
+ * bits of the first nibble hold the split count (0 = not split) and the high two bits
+ * the state; states >= 3 are written as 0b11 followed by a nibble with (state - 3).
+ */
+function encodeMmuSegmentation(extruder: number): string {
+  if (extruder < 3) return (extruder << 2).toString(16).toUpperCase();
+
+  const nibbles = [0b1100];
+  let rest = extruder - 3;
+  while (rest >= 15) {
+    nibbles.push(0xf);
+    rest -= 15;
+  }
+  nibbles.push(rest);
+
+  return nibbles.map(n => n.toString(16).toUpperCase()).reverse().join('');
+}
+
+/**
+ * Build a single watertight mesh where every triangle carries its extruder as
+ * slic3rpe:mmu_segmentation, so the slicer loads one solid with multi-material painting.
+ */
+function buildPaintedModel(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  extruders: number[],
+  baseName: string,
+  placement: BuildPlacement
+): { xml: string; objectStats: ObjectStat[] } {
+  if (!geometry.getAttribute('position')) return { xml: '', objectStats: [] };
+
+  const { vertices, triangles, objectStats } = buildSingleMesh(
+    geometry,
+    faceColorIndices,
+    palette,
+    (colorIdx) => ` slic3rpe:mmu_segmentation="${encodeMmuSegmentation(extruders[colorIdx])}"`
+  );
+
+  const objects = [buildMeshObjectXml(1, baseName, vertices, triangles)];
+
+  const buildItems = [
+    `    <item objectid="1" transform="${placement.transform}" p:UUID="${generateUUID(1001)}"/>`,
+  ];
+
+  const xml = buildModelXml(baseName, objects, buildItems, {
+    namespaces: [`slic3rpe="${SLIC3RPE_NAMESPACE}"`],
+    metadata: ['<metadata name="slic3rpe:MmPaintingVersion">1</metadata>'],
+  });
 
   return { xml, objectStats };
 }
 
+/**
+ * Build a single mesh that declares the palette as a 3MF Materials resource
+ * (core <basematerials> or <m:colorgroup>) and references it per triangle via pid/p1.
+ * This is read by 3MF-Core consumers such as Windows 3D Viewer and Cura.
+ */
+function buildMaterialsModel(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  baseName: string,
+  resource: MaterialResource,
+  placement: BuildPlacement
+): { xml: string; objectStats: ObjectStat[] } {
+  if (!geometry.getAttribute('position')) return { xml: '', objectStats: [] };
+
+  // Resources must be declared before they are referenced
+  const materialId = 1;
+  const objectId = 2;
+
+  const materialXml = resource === 'colorgroup'
+    ? `    <m:colorgroup id="${materialId}">
+${palette.map(c => `      <m:color color="${rgbToHex(c).toUpperCase()}"/>`).join('\n')}
+    </m:colorgroup>`
+    : `    <basematerials id="${materialId}">
+${palette.map((c, i) => `      <base name="Cor_${i + 1}" displaycolor="${rgbToHex(c).toUpperCase()}"/>`).join('\n')}
+    </basematerials>`;
+
+  const { vertices, triangles, objectStats } = buildSingleMesh(
+    geometry,
+    faceColorIndices,
+    palette,
+    (colorIdx) => ` pid="${materialId}" p1="${colorIdx}"`
+  );
+
+  // Object-level default property: the most used color
+  const dominant = objectStats.reduce((a, b) => (b.triangles > a.triangles ? b : a), objectStats[0]);
+  const objectXml = buildMeshObjectXml(
+    objectId,
+    baseName,
+    vertices,
+    triangles,
+    ` pid="${materialId}" pindex="${dominant?.colorIndex ?? 0}"`
+  );
+
+  const buildItems = [
+    `    <item objectid="${objectId}" transform="${placement.transform}" p:UUID="${generateUUID(1000 + objectId)}"/>`,
+  ];
+
+  const xml = buildModelXml(baseName, [materialXml, objectXml], buildItems, {
+    namespaces: resource === 'colorgroup' ? [`m="${MATERIAL_NAMESPACE}"`] : [],
+  });
+
+  return { xml, objectStats };
+}
+
+/**
+ * Build a Bambu Studio project: the parts (one mesh per color) live in
+ * 3D/Objects/object_1.model and are assembled by a single component object in
+ * the main model. model_settings.config assigns each part its extruder,
+ * project_settings.config carries the filament colors (AMS slots) and
+ * plate_1.json describes the first plate.
+ */
+function buildBambuProject(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  extruders: number[],
+  baseName: string,
+  placement: BuildPlacement,
+  filaments?: Filament[]
+): { xml: string; objectStats: ObjectStat[]; files: { path: string; content: string }[] } {
+  if (!geometry.getAttribute('position')) return { xml: '', objectStats: [], files: [] };
+
+  const { objects: parts, objectIds: partIds, objectStats } = buildColorObjects(geometry, faceColorIndices, palette);
+  const assemblyId = partIds.length + 1;
+
+  const partsXml = buildModelXml(baseName, parts, [], {
+    namespaces: [`BambuStudio="${BAMBU_NAMESPACE}"`],
+    application: BAMBU_APPLICATION,
+    requiredExtensions: 'p',
+  });
+
+  const itemTransform = placement.transform;
+
+  const components = partIds.map(partId =>
+    `        <component p:path="/${BAMBU_OBJECTS_PATH}" objectid="${partId}" p:UUID="${generateUUID(2000 + partId)}" transform="1 0 0 0 1 0 0 0 1 0 0 0"/>`
+  );
+
+  const assembly = `    <object id="${assemblyId}" name="${escapeXml(baseName)}" type="model" p:UUID="${generateUUID(assemblyId)}">
+      <components>
+${components.join('\n')}
+      </components>
+    </object>`;
+
+  const xml = buildModelXml(
+    baseName,
+    [assembly],
+    [`    <item objectid="${assemblyId}" transform="${itemTransform}" printable="1" p:UUID="${generateUUID(1000 + assemblyId)}"/>`],
+    {
+      namespaces: [`BambuStudio="${BAMBU_NAMESPACE}"`],
+      application: BAMBU_APPLICATION,
+      requiredExtensions: 'p',
+      metadata: ['<metadata name="BambuStudio:3mfVersion">1</metadata>'],
+    }
+  );
+
+  const modelRels = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/${BAMBU_OBJECTS_PATH}" Id="rel-1" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+  return {
+    xml,
+    objectStats,
+    files: [
+      { path: BAMBU_OBJECTS_PATH, content: partsXml },
+      { path: '3D/_rels/3dmodel.model.rels', content: modelRels },
+      { path: 'Metadata/model_settings.config', content: buildBambuModelSettings(baseName, assemblyId, partIds, objectStats, extruders, itemTransform) },
+      { path: 'Metadata/project_settings.config', content: buildBambuProjectSettings(getExtruderFilaments(palette, extruders, filaments)) },
+      { path: 'Metadata/plate_1.json', content: buildBambuPlateJson(baseName, assemblyId, placement.box, palette, extruders, objectStats) },
+    ],
+  };
+}
+
+const TILE_STYLES: Partial<Record<THREE.Wrapping, string>> = {
+  [THREE.RepeatWrapping]: 'wrap',
+  [THREE.MirroredRepeatWrapping]: 'mirror',
+  [THREE.ClampToEdgeWrapping]: 'clamp',
+};
+
+/**
+ * Build a single mesh that keeps the original textures: each distinct texture of the material
+ * slots is declared as an <m:texture2d> with its own <m:texture2dgroup>, every distinct UV
+ * becomes a <m:tex2coord> in the group of its face's slot (the `materialId` attribute) and
+ * triangles reference their three corners through pid/p1/p2/p3. Faces of untextured slots
+ * take their palette color from an <m:colorgroup>.
+ */
+function buildTextureModel(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  palette: RGB[],
+  baseName: string,
+  textures: (THREE.Texture | null)[],
+  placement: BuildPlacement
+): { xml: string; objectStats: ObjectStat[]; images: { path: string; texture: THREE.Texture }[] } {
+  const uvAttr = geometry.getAttribute('uv');
+  const materialIdAttr = geometry.getAttribute('materialId');
+  if (!geometry.getAttribute('position') || !uvAttr) return { xml: '', objectStats: [], images: [] };
+
+  // Resources must be declared before they are referenced: the palette, then a texture and
+  // its coordinate group per distinct texture, then the object
+  const colorGroupId = 1;
+  const groups = new Map<THREE.Texture, { textureId: number; groupId: number; path: string; coords: string[]; coordMap: Map<string, number> }>();
+  for (const texture of textures) {
+    if (!texture || groups.has(texture)) continue;
+    groups.set(texture, {
+      textureId: 2 + groups.size * 2,
+      groupId: 3 + groups.size * 2,
+      path: `${TEXTURE_FOLDER}/texture_${groups.size + 1}.png`,
+      coords: [],
+      coordMap: new Map(),
+    });
+  }
+  const objectId = 2 + groups.size * 2;
+
+  const addCoord = (texture: THREE.Texture, vertexIdx: number): number => {
+    const group = groups.get(texture)!;
+    // 3MF texture space has its origin at the bottom-left of the image;
+    // three.js textures with flipY = false (glTF) use the top-left
+    const u = uvAttr.getX(vertexIdx).toFixed(6);
+    const v = (texture.flipY ? uvAttr.getY(vertexIdx) : 1 - uvAttr.getY(vertexIdx)).toFixed(6);
+    const key = `${u},${v}`;
+
+    let index = group.coordMap.get(key);
+    if (index === undefined) {
+      index = group.coords.length;
+      group.coordMap.set(key, index);
+      group.coords.push(`      <m:tex2coord u="${u}" v="${v}"/>`);
+    }
+    return index;
+  };
+
+  let usesPalette = false;
+  const { vertices, triangles, objectStats } = buildSingleMesh(
+    geometry,
+    faceColorIndices,
+    palette,
+    (colorIdx, triangleIdx) => {
+      const base = triangleIdx * 3;
+      const texture = textures[materialIdAttr ? Math.round(materialIdAttr.getX(base)) : 0];
+      if (!texture) {
+        usesPalette = true;
+        return ` pid="${colorGroupId}" p1="${colorIdx}"`;
+      }
+      const { groupId } = groups.get(texture)!;
+      return ` pid="${groupId}" p1="${addCoord(texture, base)}" p2="${addCoord(texture, base + 1)}" p3="${addCoord(texture, base + 2)}"`;
+    }
+  );
+
+  const resources: string[] = [];
+  if (usesPalette) {
+    resources.push(`    <m:colorgroup id="${colorGroupId}">
+${palette.map(c => `      <m:color color="${rgbToHex(c).toUpperCase()}"/>`).join('\n')}
+    </m:colorgroup>`);
+  }
+  const images: { path: string; texture: THREE.Texture }[] = [];
+  for (const [texture, group] of groups) {
+    // Textures no face refers to are left out
+    if (group.coords.length === 0) continue;
+    images.push({ path: group.path, texture });
+    resources.push(`    <m:texture2d id="${group.textureId}" path="/${group.path}" contenttype="image/png" tilestyleu="${TILE_STYLES[texture.wrapS] || 'wrap'}" tilestylev="${TILE_STYLES[texture.wrapT] || 'wrap'}" filter="auto"/>`);
+    resources.push(`    <m:texture2dgroup id="${group.groupId}" texid="${group.textureId}">
+${group.coords.join('\n')}
+    </m:texture2dgroup>`);
+  }
+
+  // Object-level default property: the first resource that triangles use
+  const defaultGroup = usesPalette ? colorGroupId : [...groups.values()].find(group => group.coords.length > 0)!.groupId;
+  const objectXml = buildMeshObjectXml(objectId, baseName, vertices, triangles, ` pid="${defaultGroup}" pindex="0"`);
+
+  const buildItems = [
+    `    <item objectid="${objectId}" transform="${placement.transform}" p:UUID="${generateUUID(1000 + objectId)}"/>`,
+  ];
+
+  const xml = buildModelXml(baseName, [...resources, objectXml], buildItems, {
+    namespaces: [`m="${MATERIAL_NAMESPACE}"`],
+  });
+
+  return { xml, objectStats, images };
+}
+
+function buildTextureRels(paths: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${paths.map((path, i) => `  <Relationship Target="/${path}" Id="rel-tex-${i + 1}" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dtexture"/>`).join('\n')}
+</Relationships>`;
+}
+
+/**
+ * Re-encode the texture image as PNG (the source may be a JPEG, canvas or ImageBitmap).
+ */
+async function encodeTexturePng(texture: THREE.Texture): Promise<Uint8Array> {
+  const image = texture.image as CanvasImageSource & { width: number; height: number; naturalWidth?: number; naturalHeight?: number };
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+
+  let blob: Blob | null;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, width, height);
+    blob = await canvas.convertToBlob({ type: 'image/png' });
+  } else {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, width, height);
+    blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  }
+
+  if (!blob) {
+    throw new Error('Falha ao codificar a textura como PNG');
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
 // ===== METADATA CONFIG BUILDERS =====
 
-function buildSlicerPEConfig(palette: RGB[]): string {
-  const filamentColours = palette.map(color => rgbToHex(color)).join(';');
-  const filamentSettings = palette.map(() => 'Generic PLA').join(';');
+/** Filament loaded in one extruder, as the slicer configs list it */
+interface ExtruderFilament {
+  color: string;
+  settingsId: string;
+  type: string;
+}
+
+/**
+ * Filament of every extruder up to the highest one in use (index = extruder - 1), with the
+ * library filament's settings name when the palette was built from it, otherwise a generic
+ * profile. Extruders between library slots that no palette entry uses get a generic white PLA.
+ */
+function getExtruderFilaments(palette: RGB[], extruders: number[], filaments?: Filament[]): ExtruderFilament[] {
+  const result: ExtruderFilament[] = Array.from({ length: Math.max(0, ...extruders) }, () => ({
+    color: '#ffffff',
+    settingsId: 'Generic PLA',
+    type: 'PLA',
+  }));
+  palette.forEach((color, i) => {
+    const filament = filaments?.[i];
+    result[extruders[i] - 1] = {
+      color: rgbToHex(color),
+      // ';' separates entries in Slic3r configs
+      settingsId: filament ? getFilamentDisplayName(filament).replace(/;/g, ',') : 'Generic PLA',
+      type: filament?.material || 'PLA',
+    };
+  });
+  return result;
+}
+
+function buildSlicerPEConfig(extruderFilaments: ExtruderFilament[]): string {
+  const filamentColours = extruderFilaments.map(f => f.color).join(';');
+  const filamentSettings = extruderFilaments.map(f => f.settingsId).join(';');
 
   return `; Generated by 3D Texture Converter
 ; OrcaSlicer/Bambu Studio/PrusaSlicer compatible format
@@ -395,10 +1130,12 @@ filament_settings_id = ${filamentSettings}
 `;
 }
 
-function buildModelConfig(palette: RGB[]): string {
-  const objectConfigs = palette.map((color, idx) => `  <object id="${idx + 1}">
-    <metadata type="object" key="name" value="Cor_${idx + 1}"/>
-    <metadata type="object" key="extruder" value="${idx + 1}"/>
+// Objects are numbered from 1 in objectStats order; colors left without faces have no object,
+// so each object takes the extruder of its own palette entry
+function buildModelConfig(objectStats: ObjectStat[], extruders: number[]): string {
+  const objectConfigs = objectStats.map((stat, i) => `  <object id="${i + 1}">
+    <metadata type="object" key="name" value="Cor_${stat.colorIndex + 1}"/>
+    <metadata type="object" key="extruder" value="${extruders[stat.colorIndex]}"/>
   </object>`).join('\n');
 
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -407,13 +1144,112 @@ ${objectConfigs}
 </config>`;
 }
 
+function buildMultiVolumeModelConfig(baseName: string, volumes: VolumeRange[]): string {
+  const volumeConfigs = volumes.map(v => `    <volume firstid="${v.firstId}" lastid="${v.lastId}">
+      <metadata type="volume" key="name" value="${escapeXml(v.name)}"/>
+      <metadata type="volume" key="volume_type" value="ModelPart"/>
+      <metadata type="volume" key="extruder" value="${v.extruder}"/>
+    </volume>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<config>
+  <object id="1" instances_count="1">
+    <metadata type="object" key="name" value="${escapeXml(baseName)}"/>
+    <metadata type="object" key="extruder" value="1"/>
+${volumeConfigs}
+  </object>
+</config>`;
+}
+
+function buildBambuModelSettings(
+  baseName: string,
+  assemblyId: number,
+  partIds: number[],
+  objectStats: ObjectStat[],
+  extruders: number[],
+  itemTransform: string
+): string {
+  const identity = '1 0 0 0 0 1 0 0 0 0 1 0 0 0 0 1';
+  const parts = partIds.map((partId, i) => `    <part id="${partId}" subtype="normal_part">
+      <metadata key="name" value="Cor_${objectStats[i].colorIndex + 1}"/>
+      <metadata key="matrix" value="${identity}"/>
+      <metadata key="extruder" value="${extruders[objectStats[i].colorIndex]}"/>
+      <mesh_stat edges_fixed="0" degenerate_facets="0" facets_removed="0" facets_reversed="0" backwards_edges="0"/>
+    </part>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<config>
+  <object id="${assemblyId}">
+    <metadata key="name" value="${escapeXml(baseName)}"/>
+    <metadata key="extruder" value="${extruders[objectStats[0]?.colorIndex ?? 0] ?? 1}"/>
+${parts}
+  </object>
+  <plate>
+    <metadata key="plater_id" value="1"/>
+    <metadata key="plater_name" value=""/>
+    <metadata key="locked" value="false"/>
+    <model_instance>
+      <metadata key="object_id" value="${assemblyId}"/>
+      <metadata key="instance_id" value="0"/>
+      <metadata key="identify_id" value="${assemblyId}"/>
+    </model_instance>
+  </plate>
+  <assemble>
+   <assemble_item object_id="${assemblyId}" instance_id="0" transform="${itemTransform}" offset="0 0 0" />
+  </assemble>
+</config>`;
+}
+
+function buildBambuProjectSettings(extruderFilaments: ExtruderFilament[]): string {
+  const settings = {
+    filament_colour: extruderFilaments.map(f => f.color.toUpperCase()),
+    filament_settings_id: extruderFilaments.map(f => f.settingsId),
+    filament_type: extruderFilaments.map(f => f.type),
+    from: 'project',
+    name: 'project_settings',
+  };
+  return JSON.stringify(settings, null, 4);
+}
+
+function buildBambuPlateJson(
+  baseName: string,
+  assemblyId: number,
+  box: THREE.Box3,
+  palette: RGB[],
+  extruders: number[],
+  objectStats: ObjectStat[]
+): string {
+  const bbox = [box.min.x, box.min.y, box.max.x, box.max.y].map(v => Number(v.toFixed(3)));
+  // Filament ids are 0-based extruder numbers
+  const usedFilaments = objectStats.map(o => extruders[o.colorIndex] - 1);
+
+  const plate = {
+    bbox_all: bbox,
+    bbox_objects: [{
+      area: Number(((bbox[2] - bbox[0]) * (bbox[3] - bbox[1])).toFixed(3)),
+      bbox,
+      id: assemblyId,
+      layer_height: 0.2,
+      name: baseName,
+    }],
+    bed_type: 'textured_plate',
+    filament_colors: objectStats.map(o => rgbToHex(palette[o.colorIndex]).toUpperCase()),
+    filament_ids: usedFilaments,
+    first_extruder: usedFilaments[0] ?? 0,
+    is_seq_print: false,
+    nozzle_diameter: 0.4,
+    version: 2,
+  };
+  return JSON.stringify(plate, null, 4);
+}
+
 // ===== DIAGNOSTIC REPORT =====
 
 function buildDiagnosticReport(report: ExportReport): string {
   const lines = [
     '=== 3D Texture Converter - Export Report ===',
     `Date: ${new Date().toISOString()}`,
-    `Export Mode: Flat Structure (trimesh compatible)`,
+    `Export Mode: ${EXPORT_MODE_LABELS[report.mode]}`,
     '',
     '--- File Structure ---',
     report.fileStructure,
@@ -434,7 +1270,9 @@ function buildDiagnosticReport(report: ExportReport): string {
     ),
     '',
     '--- Palette ---',
-    ...report.palette.map((c, i) => `  Cor_${i + 1}: ${c}`),
+    ...report.palette.map((c, i) =>
+      `  Cor_${i + 1}: ${c}${report.filamentNames?.[i] ? ` (${report.filamentNames[i]})` : ''}`
+    ),
     '',
     '--- Color Distribution ---',
     ...report.colorDistribution.map(d =>
@@ -453,14 +1291,60 @@ function buildDiagnosticReport(report: ExportReport): string {
       : []),
     '',
     '--- Usage in OrcaSlicer ---',
+    ...getUsageLines(report.mode),
+    '',
+    '=== End Report ===',
+  ];
+  return lines.join('\n');
+}
+
+function getUsageLines(mode: ExportMode): string[] {
+  if (mode === 'texture') {
+    return [
+      '  1. Open the file in a full-color 3MF workflow (binder jetting, PolyJet, service bureau)',
+      '  2. The original textures are embedded as 3D/Textures/texture_N.png',
+      '  3. Textured triangles carry their UV coordinates (m:texture2dgroup)',
+      '  4. Untextured triangles use the quantized palette above (m:colorgroup)',
+    ];
+  }
+  if (mode === 'bambu') {
+    return [
+      '  1. Open the file in Bambu Studio (File > Open Project)',
+      '  2. The model loads on plate 1 as one object with one part per color',
+      '  3. Filament slots are preset with the palette colors (AMS mapping on print)',
+      '  4. Colors in palette match the RGB values shown above',
+    ];
+  }
+  if (mode === 'materials') {
+    return [
+      '  1. Open the file in any 3MF viewer or slicer',
+      '  2. Triangle colors come from the 3MF Materials resource (pid/p1)',
+      '  3. Windows 3D Viewer, Cura and other 3MF-Core consumers show the palette directly',
+      '  4. Slic3r-based slicers may still need filaments assigned by hand',
+    ];
+  }
+  if (mode === 'painted') {
+    return [
+      '  1. Open File > Import > Import 3MF',
+      '  2. The model loads as a single solid with multi-material painting',
+      '  3. Filament N paints the triangles of palette color Cor_N',
+      '  4. Use the painting tool to touch up colors if needed',
+    ];
+  }
+  if (mode === 'multi_volume') {
+    return [
+      '  1. Open File > Import > Import 3MF',
+      '  2. The model loads as a single object with one part per color',
+      '  3. Each part already has its filament (extruder) assigned',
+      '  4. Colors in palette match the RGB values shown above',
+    ];
+  }
+  return [
     '  1. Open File > Import > Import 3MF',
     '  2. Each color appears as a separate object',
     '  3. Right-click object > Change Filament to assign extruder',
     '  4. Colors in palette match the RGB values shown above',
-    '',
-    '=== End Report ===',
   ];
-  return lines.join('\n');
 }
 
 function formatBytes(bytes: number): string {
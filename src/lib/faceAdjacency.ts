@@ -0,0 +1,154 @@
+// Face adjacency on the welded mesh: faces are neighbors when they share an edge by position,
+// even when the geometry is a triangle soup
+import * as THREE from 'three';
+
+export interface FaceAdjacency {
+  /** Neighbors of face f are neighbors[offsets[f]] .. neighbors[offsets[f + 1] - 1] */
+  offsets: Uint32Array;
+  neighbors: Uint32Array;
+  /** Length of the edge shared with each neighbor (same layout as `neighbors`) */
+  edgeLengths: Float32Array;
+  /** Area of each face (model units squared, mm²) */
+  areas: Float32Array;
+}
+
+export interface ColorRegions {
+  /** Region id of each face */
+  regionOfFace: Uint32Array;
+  regionCount: number;
+  /** Area and palette index of each region */
+  areas: number[];
+  colors: number[];
+}
+
+// Async helper to yield to UI
+async function yieldToUI(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Build edge adjacency between faces. Vertices are welded by position, so faces of a soup
+ * (or across UV seams) that touch along an edge are still neighbors. Non-manifold edges link
+ * every extra face to the first face on the edge.
+ */
+export async function buildFaceAdjacencyAsync(
+  geometry: THREE.BufferGeometry,
+  signal?: AbortSignal
+): Promise<FaceAdjacency> {
+  const posAttr = geometry.getAttribute('position');
+  const indexAttr = geometry.getIndex();
+  const faceCount = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+  const cornerVertex = (corner: number) => (indexAttr ? indexAttr.getX(corner) : corner);
+
+  // Weld corners by position
+  const vertexIds = new Uint32Array(faceCount * 3);
+  const lookup = new Map<string, number>();
+  for (let corner = 0; corner < vertexIds.length; corner++) {
+    const vi = cornerVertex(corner);
+    const key = `${Math.round(posAttr.getX(vi) * 1e5)},${Math.round(posAttr.getY(vi) * 1e5)},${Math.round(posAttr.getZ(vi) * 1e5)}`;
+    let id = lookup.get(key);
+    if (id === undefined) {
+      id = lookup.size;
+      lookup.set(key, id);
+    }
+    vertexIds[corner] = id;
+  }
+  const vertexCount = lookup.size;
+  lookup.clear();
+
+  const areas = new Float32Array(faceCount);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const tri = new THREE.Triangle(a, b, c);
+
+  // Pair every face with the first face seen on each of its edges
+  const firstFaceOnEdge = new Map<number, number>();
+  const pairs: number[] = [];
+  const pairLengths: number[] = [];
+
+  for (let f = 0; f < faceCount; f++) {
+    a.fromBufferAttribute(posAttr, cornerVertex(f * 3));
+    b.fromBufferAttribute(posAttr, cornerVertex(f * 3 + 1));
+    c.fromBufferAttribute(posAttr, cornerVertex(f * 3 + 2));
+    areas[f] = tri.getArea();
+    const corners = [a, b, c];
+
+    for (let e = 0; e < 3; e++) {
+      const v0 = vertexIds[f * 3 + e];
+      const v1 = vertexIds[f * 3 + ((e + 1) % 3)];
+      if (v0 === v1) continue;
+      const key = v0 < v1 ? v0 * vertexCount + v1 : v1 * vertexCount + v0;
+      const other = firstFaceOnEdge.get(key);
+      if (other === undefined) {
+        firstFaceOnEdge.set(key, f);
+      } else if (other !== f) {
+        pairs.push(other, f);
+        pairLengths.push(corners[e].distanceTo(corners[(e + 1) % 3]));
+      }
+    }
+
+    if (f % 20000 === 0) {
+      await yieldToUI();
+      signal?.throwIfAborted();
+    }
+  }
+
+  // Pack into CSR arrays
+  const offsets = new Uint32Array(faceCount + 1);
+  for (const face of pairs) offsets[face + 1]++;
+  for (let f = 0; f < faceCount; f++) offsets[f + 1] += offsets[f];
+
+  const fill = offsets.slice(0, faceCount);
+  const neighbors = new Uint32Array(pairs.length);
+  const edgeLengths = new Float32Array(pairs.length);
+  for (let p = 0; p < pairs.length; p += 2) {
+    const [f0, f1] = [pairs[p], pairs[p + 1]];
+    const length = pairLengths[p / 2];
+    neighbors[fill[f0]] = f1;
+    edgeLengths[fill[f0]++] = length;
+    neighbors[fill[f1]] = f0;
+    edgeLengths[fill[f1]++] = length;
+  }
+
+  return { offsets, neighbors, edgeLengths, areas };
+}
+
+/**
+ * Connected components of faces with the same palette index.
+ */
+export function labelColorRegions(adjacency: FaceAdjacency, faceColorIndices: ArrayLike<number>): ColorRegions {
+  const { offsets, neighbors, areas } = adjacency;
+  const faceCount = areas.length;
+  const regionOfFace = new Uint32Array(faceCount).fill(0xffffffff);
+  const regionAreas: number[] = [];
+  const regionColors: number[] = [];
+  const stack: number[] = [];
+
+  for (let seed = 0; seed < faceCount; seed++) {
+    if (regionOfFace[seed] !== 0xffffffff) continue;
+
+    const region = regionAreas.length;
+    const color = faceColorIndices[seed];
+    let area = 0;
+    regionOfFace[seed] = region;
+    stack.push(seed);
+
+    while (stack.length > 0) {
+      const f = stack.pop()!;
+      area += areas[f];
+      for (let i = offsets[f]; i < offsets[f + 1]; i++) {
+        const n = neighbors[i];
+        if (regionOfFace[n] === 0xffffffff && faceColorIndices[n] === color) {
+          regionOfFace[n] = region;
+          stack.push(n);
+        }
+      }
+    }
+
+    regionAreas.push(area);
+    regionColors.push(color);
+  }
+
+  return { regionOfFace, regionCount: regionAreas.length, areas: regionAreas, colors: regionColors };
+}
@@ -0,0 +1,211 @@
+// Filament inventory: constrains the quantized palette to spools we actually own
+import { RGB, ColorSpace, Vec3, colorDistance, hexToRgb, rgbToHex, toColorSpace } from './colorQuantization';
+
+export interface Filament {
+  id: string;
+  name: string;
+  brand: string;
+  /** Hex color, e.g. #FF0000 */
+  color: string;
+  /** Material type as the slicer knows it (PLA, PETG, ...) */
+  material: string;
+  /** AMS / MMU slot (1-based): exported projects load the filament in this extruder */
+  slot?: number;
+}
+
+/**
+ * How the palette relates to the filament library.
+ * - auto: quantized palette as is
+ * - library: pick the best N filaments directly from the library
+ * - snap: quantize, then replace each palette color with the nearest owned filament
+ */
+export type PaletteMode = 'auto' | 'library' | 'snap';
+
+export interface FilamentPalette {
+  palette: RGB[];
+  /** Filament for each palette entry (same order) */
+  filaments: Filament[];
+}
+
+// Perceptual metric used for library matching (independent of the quantization space)
+const MATCH_SPACE: ColorSpace = 'lab';
+
+export const DEFAULT_FILAMENTS: Filament[] = [
+  { id: 'pla-white', name: 'PLA Basic White', brand: 'Bambu Lab', color: '#FFFFFF', material: 'PLA', slot: 1 },
+  { id: 'pla-black', name: 'PLA Basic Black', brand: 'Bambu Lab', color: '#000000', material: 'PLA', slot: 2 },
+  { id: 'pla-red', name: 'PLA Basic Red', brand: 'Bambu Lab', color: '#C12E1F', material: 'PLA', slot: 3 },
+  { id: 'pla-blue', name: 'PLA Basic Blue', brand: 'Bambu Lab', color: '#0A2989', material: 'PLA', slot: 4 },
+  { id: 'pla-yellow', name: 'PLA Basic Yellow', brand: 'Bambu Lab', color: '#F4EE2A', material: 'PLA' },
+  { id: 'pla-green', name: 'PLA Basic Bambu Green', brand: 'Bambu Lab', color: '#00AE42', material: 'PLA' },
+  { id: 'pla-gray', name: 'PLA Basic Gray', brand: 'Bambu Lab', color: '#8E9089', material: 'PLA' },
+  { id: 'pla-beige', name: 'PLA Basic Beige', brand: 'Bambu Lab', color: '#F7E6DE', material: 'PLA' },
+  { id: 'pla-brown', name: 'PLA Basic Brown', brand: 'Bambu Lab', color: '#9D432C', material: 'PLA' },
+];
+
+/** Name written to slicer configs, e.g. "Bambu Lab PLA Basic Red" */
+export function getFilamentDisplayName(filament: Filament): string {
+  return filament.brand ? `${filament.brand} ${filament.name}` : filament.name;
+}
+
+/**
+ * Extruder (1-based) of each palette entry. Library filaments go to their `slot`; entries
+ * without one, or whose slot an earlier entry already took, get the lowest free extruder in
+ * palette order. Without filaments this is the palette index + 1.
+ */
+export function assignExtruders(paletteSize: number, filaments?: Filament[]): number[] {
+  const extruders = new Array<number>(paletteSize).fill(0);
+  const taken = new Set<number>();
+  for (let i = 0; i < paletteSize; i++) {
+    const slot = filaments?.[i]?.slot;
+    if (slot && slot >= 1 && !taken.has(slot)) {
+      extruders[i] = slot;
+      taken.add(slot);
+    }
+  }
+
+  let next = 1;
+  for (let i = 0; i < paletteSize; i++) {
+    if (extruders[i]) continue;
+    while (taken.has(next)) next++;
+    extruders[i] = next;
+    taken.add(next);
+  }
+  return extruders;
+}
+
+function sortBySlot(filaments: Filament[]): Filament[] {
+  return [...filaments].sort((a, b) => (a.slot ?? Infinity) - (b.slot ?? Infinity));
+}
+
+function toPalette(filaments: Filament[]): FilamentPalette {
+  return {
+    palette: filaments.map(f => hexToRgb(f.color)),
+    filaments,
+  };
+}
+
+/**
+ * Pick the N library filaments that best reproduce the given colors.
+ * Greedy forward selection minimizing the total (occurrence-weighted) distance of every color
+ * to its nearest selected filament, followed by single swaps while they reduce the cost.
+ */
+export function selectFilamentsFromLibrary(colors: RGB[], library: Filament[], numColors: number): FilamentPalette {
+  if (library.length === 0) return { palette: [], filaments: [] };
+  const count = Math.min(numColors, library.length);
+
+  // Cluster unique colors weighted by occurrence
+  const weights = new Map<string, { color: RGB; weight: number }>();
+  for (const c of colors) {
+    const key = rgbToHex(c);
+    const entry = weights.get(key);
+    if (entry) entry.weight++;
+    else weights.set(key, { color: c, weight: 1 });
+  }
+  const samples = Array.from(weights.values()).map(({ color, weight }) => ({
+    v: toColorSpace(color, MATCH_SPACE),
+    weight,
+  }));
+
+  const candidates = library.map(f => toColorSpace(hexToRgb(f.color), MATCH_SPACE));
+
+  // distances[j][i]: candidate j to sample i
+  const distances = candidates.map(cv => samples.map(s => colorDistance(s.v, cv, MATCH_SPACE)));
+
+  const totalCost = (selected: number[]): number => {
+    let cost = 0;
+    for (let i = 0; i < samples.length; i++) {
+      let best = Infinity;
+      for (const j of selected) best = Math.min(best, distances[j][i]);
+      cost += best * samples[i].weight;
+    }
+    return cost;
+  };
+
+  // Distance of each sample to its nearest selected filament so far
+  const nearest = new Array<number>(samples.length).fill(Infinity);
+  const selected: number[] = [];
+  while (selected.length < count) {
+    let bestCandidate = -1;
+    let bestCost = Infinity;
+    for (let j = 0; j < library.length; j++) {
+      if (selected.includes(j)) continue;
+      let cost = 0;
+      for (let i = 0; i < samples.length; i++) {
+        cost += Math.min(nearest[i], distances[j][i]) * samples[i].weight;
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestCandidate = j;
+      }
+    }
+    selected.push(bestCandidate);
+    for (let i = 0; i < samples.length; i++) {
+      nearest[i] = Math.min(nearest[i], distances[bestCandidate][i]);
+    }
+  }
+
+  let currentCost = totalCost(selected);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let s = 0; s < selected.length; s++) {
+      for (let j = 0; j < library.length; j++) {
+        if (selected.includes(j)) continue;
+        const trial = [...selected];
+        trial[s] = j;
+        const cost = totalCost(trial);
+        if (cost < currentCost - 1e-9) {
+          selected[s] = j;
+          currentCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return toPalette(sortBySlot(selected.map(j => library[j])));
+}
+
+/**
+ * Replace each palette color with the nearest owned filament.
+ * Pairs are assigned closest-first so two palette colors only share a filament when the
+ * library has fewer filaments than the palette; shared filaments collapse into one entry.
+ */
+export function snapPaletteToLibrary(palette: RGB[], library: Filament[]): FilamentPalette {
+  if (library.length === 0) return { palette: [], filaments: [] };
+
+  const paletteVecs: Vec3[] = palette.map(c => toColorSpace(c, MATCH_SPACE));
+  const libraryVecs: Vec3[] = library.map(f => toColorSpace(hexToRgb(f.color), MATCH_SPACE));
+
+  const pairs: { p: number; f: number; d: number }[] = [];
+  for (let p = 0; p < paletteVecs.length; p++) {
+    for (let f = 0; f < libraryVecs.length; f++) {
+      pairs.push({ p, f, d: colorDistance(paletteVecs[p], libraryVecs[f], MATCH_SPACE) });
+    }
+  }
+  pairs.sort((a, b) => a.d - b.d);
+
+  const assignment = new Array<number>(palette.length).fill(-1);
+  const usedFilaments = new Set<number>();
+  for (const { p, f } of pairs) {
+    if (assignment[p] !== -1 || usedFilaments.has(f)) continue;
+    assignment[p] = f;
+    usedFilaments.add(f);
+  }
+
+  // Library exhausted: remaining colors fall back to their nearest filament
+  for (let p = 0; p < palette.length; p++) {
+    if (assignment[p] !== -1) continue;
+    let nearest = 0;
+    for (let f = 1; f < libraryVecs.length; f++) {
+      if (colorDistance(paletteVecs[p], libraryVecs[f], MATCH_SPACE) <
+          colorDistance(paletteVecs[p], libraryVecs[nearest], MATCH_SPACE)) {
+        nearest = f;
+      }
+    }
+    assignment[p] = nearest;
+  }
+
+  const unique = Array.from(new Set(assignment)).map(f => library[f]);
+  return toPalette(sortBySlot(unique));
+}
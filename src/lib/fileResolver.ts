@@ -0,0 +1,119 @@
+// File resolver: lets three.js loaders fetch the companion files (.bin buffers, textures) of a
+// model from the files the user dropped, matching the relative URIs the model references
+import * as THREE from 'three';
+
+export interface FileResolver {
+  /** Loading manager that redirects requests for known paths to blob URLs of the dropped files */
+  manager: THREE.LoadingManager;
+  /** Path to pass to a loader for `file`, so relative references resolve against its folder */
+  getLoadPath: (file: File) => string;
+  /** Dropped file a (relative, possibly URI-escaped) path refers to */
+  findFile: (path: string) => File | undefined;
+  /**
+   * Resolves once every request made through the manager has finished. Some loaders (MTL
+   * textures) return before their files arrive.
+   */
+  whenIdle: () => Promise<void>;
+  /** Revoke every blob URL created by the resolver */
+  dispose: () => void;
+}
+
+/** Path of a file relative to the dropped folder, or just its name when dropped loose */
+export function getFilePath(file: File): string {
+  return (file.webkitRelativePath || file.name).replace(/\\/g, '/');
+}
+
+/**
+ * Record `path` as the file's location inside a dropped folder or archive, in the same
+ * webkitRelativePath a folder picked with <input webkitdirectory> would carry
+ */
+export function withRelativePath(file: File, path: string): File {
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+}
+
+/** Collapse `.`/`..` segments and duplicate slashes; URI escapes are decoded */
+export function normalizePath(path: string): string {
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+
+  const segments: string[] = [];
+  for (const segment of decoded.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+function getBaseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+}
+
+/**
+ * Resolver over `files`. Requests are matched by full relative path first, then by file name
+ * alone (exporters reference `textures/wood.png` while users often drop the files flat).
+ * Absolute, data and blob URLs pass through untouched.
+ */
+export function createFileResolver(files: File[]): FileResolver {
+  const byPath = new Map<string, File>();
+  const byName = new Map<string, File>();
+  for (const file of files) {
+    const path = normalizePath(getFilePath(file));
+    byPath.set(path.toLowerCase(), file);
+    if (!byName.has(getBaseName(path))) byName.set(getBaseName(path), file);
+  }
+
+  const urls = new Map<File, string>();
+  const getUrl = (file: File) => {
+    let url = urls.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      urls.set(file, url);
+    }
+    return url;
+  };
+
+  const findFile = (path: string) => {
+    const normalized = normalizePath(path.split(/[?#]/)[0]);
+    return byPath.get(normalized.toLowerCase()) ?? byName.get(getBaseName(normalized));
+  };
+
+  let loading = false;
+  let idleWaiters: (() => void)[] = [];
+  const manager = new THREE.LoadingManager(() => {
+    loading = false;
+    idleWaiters.forEach(resolve => resolve());
+    idleWaiters = [];
+  });
+  manager.onStart = () => {
+    loading = true;
+  };
+
+  manager.setURLModifier((url) => {
+    if (/^(https?:|data:|blob:)/i.test(url) || url.startsWith('//')) return url;
+
+    const file = findFile(url);
+    if (!file) {
+      console.warn(`[fileResolver] Referenced file not found among the dropped files: ${normalizePath(url)}`);
+      return url;
+    }
+    return getUrl(file);
+  });
+
+  return {
+    manager,
+    // Escaped so names with spaces or '#' survive the loaders' URL handling
+    getLoadPath: (file) => normalizePath(getFilePath(file)).split('/').map(encodeURIComponent).join('/'),
+    findFile,
+    whenIdle: () => (loading ? new Promise<void>(resolve => idleWaiters.push(resolve)) : Promise.resolve()),
+    dispose: () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    },
+  };
+}
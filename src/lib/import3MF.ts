@@ -0,0 +1,478 @@
+// 3MF import: reads a 3MF package (ours or one painted in a slicer) back into a scene, so its
+// colors can be re-quantized or re-paletted. Build items, components (including the object files
+// of Bambu Studio projects) and the model unit are honored. Triangle colors come from, in order:
+// PrusaSlicer/OrcaSlicer (slic3rpe:mmu_segmentation) or Bambu Studio (paint_color) painting,
+// pid/p1..p3 properties (basematerials, colorgroup, texture2dgroup), and the extruder the slicer
+// config assigns to the object, volume or part
+import JSZip from 'jszip';
+import * as THREE from 'three';
+import { findModelPath } from './inspect3MF';
+
+/** Millimeters per 3MF model unit */
+const UNIT_SCALE: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+// Color of triangles with no color information
+const UNCOLORED = 0xcccccc;
+
+// Extruder colors used when the package carries no slicer config
+const DEFAULT_EXTRUDER_COLORS = ['#E6E6E6', '#D32F2F', '#1976D2', '#388E3C', '#FBC02D', '#7B1FA2', '#F57C00', '#212121'];
+
+// Components nested deeper than this are treated as a cycle
+const MAX_COMPONENT_DEPTH = 16;
+
+const TILE_WRAPPING: Record<string, THREE.Wrapping> = {
+  wrap: THREE.RepeatWrapping,
+  mirror: THREE.MirroredRepeatWrapping,
+  clamp: THREE.ClampToEdgeWrapping,
+  none: THREE.ClampToEdgeWrapping,
+};
+
+type PropertyGroup =
+  | { kind: 'colors'; colors: THREE.Color[] }
+  | { kind: 'texture'; coords: number[]; texture: THREE.Texture | null };
+
+interface ModelPart {
+  objects: Map<string, Element>;
+  properties: Map<string, PropertyGroup>;
+}
+
+/** Extruders assigned by Slic3r_PE_model.config (objects, volumes) or model_settings.config (objects, parts) */
+interface ExtruderConfig {
+  colors: THREE.Color[];
+  objects: Map<string, number>;
+  /** Triangle ranges (inclusive) of the volumes of each object */
+  volumes: Map<string, { first: number; last: number; extruder: number }[]>;
+  /** Keyed by `${objectId}/${partId}`, the part id being the component's object id */
+  parts: Map<string, number>;
+}
+
+// Local name without the namespace prefix (XML parsers differ on whether they keep it)
+function nameOf(element: Element): string {
+  return element.localName.slice(element.localName.indexOf(':') + 1);
+}
+
+function childElements(element: Element | null | undefined, name: string): Element[] {
+  return element ? Array.from(element.children).filter((child) => nameOf(child) === name) : [];
+}
+
+function parseXml(text: string, path: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  const root = doc.documentElement;
+  if (!root || nameOf(root) === 'parsererror' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${path}`);
+  }
+  return doc;
+}
+
+/** 3MF transform ("m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32", row vectors) as a Matrix4 */
+function parseTransform(value: string | null): THREE.Matrix4 {
+  const matrix = new THREE.Matrix4();
+  const m = value?.trim().split(/\s+/).map(Number);
+  if (!m || m.length !== 12 || m.some((n) => !Number.isFinite(n))) return matrix;
+  return matrix.set(
+    m[0], m[3], m[6], m[9],
+    m[1], m[4], m[7], m[10],
+    m[2], m[5], m[8], m[11],
+    0, 0, 0, 1
+  );
+}
+
+// "#RRGGBB" or "#RRGGBBAA" (alpha ignored)
+function parseColor(value: string | null): THREE.Color {
+  const hex = value?.trim().match(/^#?([0-9a-f]{6})/i)?.[1];
+  return new THREE.Color(hex ? `#${hex}` : UNCOLORED);
+}
+
+/**
+ * Extruder of a whole triangle from its TriangleSelector string (the format of
+ * slic3rpe:mmu_segmentation and paint_color; see encodeMmuSegmentation in export3MF). The string
+ * is read from its end; split triangles take the state covering most of them, children counting
+ * as equal shares. 0 means not painted.
+ */
+export function decodePaintState(encoded: string): number {
+  let position = encoded.length - 1;
+  const next = () => (position >= 0 ? parseInt(encoded[position--], 16) || 0 : 0);
+  const shares = new Map<number, number>();
+
+  const visit = (share: number, depth: number) => {
+    const code = next();
+    const splitSides = code & 0b11;
+    if (splitSides === 0 || depth > 32) {
+      let state = code >> 2;
+      if (state === 3) {
+        let nibble: number;
+        do {
+          nibble = next();
+          state += nibble;
+        } while (nibble === 0xf && position >= 0);
+      }
+      shares.set(state, (shares.get(state) ?? 0) + share);
+      return;
+    }
+    const children = splitSides + 1;
+    for (let i = 0; i < children; i++) visit(share / children, depth + 1);
+  };
+  visit(1, 0);
+
+  let best = 0;
+  let bestShare = -1;
+  for (const [state, share] of shares) {
+    if (share > bestShare) {
+      best = state;
+      bestShare = share;
+    }
+  }
+  return best;
+}
+
+async function readExtruderConfig(zip: JSZip): Promise<ExtruderConfig> {
+  const config: ExtruderConfig = { colors: [], objects: new Map(), volumes: new Map(), parts: new Map() };
+
+  // PrusaSlicer/OrcaSlicer: "; extruder_colour = #..;#.." wins over filament_colour when set
+  const slicerConfig = await zip.file('Metadata/Slic3r_PE.config')?.async('text');
+  if (slicerConfig) {
+    const readList = (key: string) =>
+      new RegExp(`^;?\\s*${key}\\s*=\\s*(.*)$`, 'm').exec(slicerConfig)?.[1].split(';').map((c) => c.trim()) ?? [];
+    const extruderColours = readList('extruder_colour');
+    const filamentColours = readList('filament_colour');
+    const count = Math.max(extruderColours.length, filamentColours.length);
+    for (let i = 0; i < count; i++) {
+      const hex = extruderColours[i]?.startsWith('#') ? extruderColours[i] : filamentColours[i];
+      config.colors.push(parseColor(hex ?? null));
+    }
+  }
+
+  // Bambu Studio: JSON project settings
+  const projectSettings = await zip.file('Metadata/project_settings.config')?.async('text');
+  if (projectSettings && config.colors.length === 0) {
+    try {
+      const settings = JSON.parse(projectSettings) as { filament_colour?: string[] };
+      config.colors = (settings.filament_colour ?? []).map((hex) => parseColor(hex));
+    } catch (e) {
+      console.warn('[import3MF] Unreadable project_settings.config:', e);
+    }
+  }
+
+  const readExtruder = (element: Element) => {
+    const meta = childElements(element, 'metadata').find((m) => m.getAttribute('key') === 'extruder');
+    const value = Number(meta?.getAttribute('value'));
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  };
+
+  for (const path of ['Metadata/Slic3r_PE_model.config', 'Metadata/model_settings.config']) {
+    const text = await zip.file(path)?.async('text');
+    if (!text) continue;
+    const doc = parseXml(text, path);
+    for (const object of childElements(doc.documentElement, 'object')) {
+      const id = object.getAttribute('id') ?? '';
+      const extruder = readExtruder(object);
+      if (extruder) config.objects.set(id, extruder);
+
+      const volumes = childElements(object, 'volume').flatMap((volume) => {
+        const volumeExtruder = readExtruder(volume);
+        const first = Number(volume.getAttribute('firstid'));
+        const last = Number(volume.getAttribute('lastid'));
+        return volumeExtruder && Number.isFinite(first) && Number.isFinite(last)
+          ? [{ first, last, extruder: volumeExtruder }]
+          : [];
+      });
+      if (volumes.length > 0) config.volumes.set(id, volumes);
+
+      for (const part of childElements(object, 'part')) {
+        const partExtruder = readExtruder(part);
+        if (partExtruder) config.parts.set(`${id}/${part.getAttribute('id')}`, partExtruder);
+      }
+    }
+  }
+
+  return config;
+}
+
+async function loadTexture(zip: JSZip, path: string, element: Element): Promise<THREE.Texture | null> {
+  const file = zip.file(path.replace(/^\//, ''));
+  if (!file) {
+    console.warn(`[import3MF] Texture not found in package: ${path}`);
+    return null;
+  }
+
+  const blob = new Blob([await file.async('arraybuffer')], { type: element.getAttribute('contenttype') ?? 'image/png' });
+  const url = URL.createObjectURL(blob);
+  try {
+    const texture = await new THREE.TextureLoader().loadAsync(url);
+    // 3MF texture coordinates start at the bottom-left, as three.js expects with flipY
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = TILE_WRAPPING[element.getAttribute('tilestyleu') ?? 'wrap'] ?? THREE.RepeatWrapping;
+    texture.wrapT = TILE_WRAPPING[element.getAttribute('tilestylev') ?? 'wrap'] ?? THREE.RepeatWrapping;
+    return texture;
+  } catch (e) {
+    console.warn(`[import3MF] Failed to decode texture ${path}:`, e);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function readModelPart(zip: JSZip, doc: Document): Promise<ModelPart> {
+  const part: ModelPart = { objects: new Map(), properties: new Map() };
+  const resources = childElements(doc.documentElement, 'resources')[0];
+  const textures = new Map<string, Element>();
+
+  for (const resource of Array.from(resources?.children ?? [])) {
+    const id = resource.getAttribute('id') ?? '';
+    switch (nameOf(resource)) {
+      case 'object':
+        part.objects.set(id, resource);
+        break;
+      case 'basematerials':
+        part.properties.set(id, {
+          kind: 'colors',
+          colors: childElements(resource, 'base').map((base) => parseColor(base.getAttribute('displaycolor'))),
+        });
+        break;
+      case 'colorgroup':
+        part.properties.set(id, {
+          kind: 'colors',
+          colors: childElements(resource, 'color').map((color) => parseColor(color.getAttribute('color'))),
+        });
+        break;
+      case 'texture2d':
+        textures.set(id, resource);
+        break;
+      case 'texture2dgroup': {
+        const textureElement = textures.get(resource.getAttribute('texid') ?? '');
+        const texturePath = textureElement?.getAttribute('path');
+        part.properties.set(id, {
+          kind: 'texture',
+          coords: childElements(resource, 'tex2coord').flatMap((coord) => [
+            Number(coord.getAttribute('u')) || 0,
+            Number(coord.getAttribute('v')) || 0,
+          ]),
+          texture: textureElement && texturePath ? await loadTexture(zip, texturePath, textureElement) : null,
+        });
+        break;
+      }
+    }
+  }
+
+  return part;
+}
+
+interface MeshContext {
+  /** Build item object id (the id slicer configs refer to) */
+  rootObjectId: string;
+  /** Extruder of unpainted triangles, unless a volume range overrides it */
+  extruder: number;
+}
+
+/**
+ * Meshes of one 3MF mesh object: colored triangles (vertex colors), one mesh per texture group
+ * and uncolored triangles, each a triangle soup.
+ */
+function buildObjectMeshes(
+  object: Element,
+  part: ModelPart,
+  context: MeshContext,
+  config: ExtruderConfig,
+  colorSources: Set<string>
+): THREE.Mesh[] {
+  const mesh = childElements(object, 'mesh')[0];
+  const vertexElements = childElements(childElements(mesh, 'vertices')[0], 'vertex');
+  const triangleElements = childElements(childElements(mesh, 'triangles')[0], 'triangle');
+
+  const vertices = new Float32Array(vertexElements.length * 3);
+  vertexElements.forEach((vertex, i) => {
+    vertices[i * 3] = Number(vertex.getAttribute('x')) || 0;
+    vertices[i * 3 + 1] = Number(vertex.getAttribute('y')) || 0;
+    vertices[i * 3 + 2] = Number(vertex.getAttribute('z')) || 0;
+  });
+
+  const extruderColor = (extruder: number) =>
+    config.colors[extruder - 1] ?? new THREE.Color(DEFAULT_EXTRUDER_COLORS[(extruder - 1) % DEFAULT_EXTRUDER_COLORS.length]);
+  const volumes = config.volumes.get(context.rootObjectId);
+  // Unpainted triangles print with their extruder in slicer projects and painted objects;
+  // elsewhere they simply have no color
+  const usesExtruders =
+    config.colors.length > 0 || config.objects.size > 0 || config.volumes.size > 0 || config.parts.size > 0 ||
+    triangleElements.some((t) => t.hasAttribute('slic3rpe:mmu_segmentation') || t.hasAttribute('paint_color'));
+
+  const objectPid = object.getAttribute('pid');
+  const objectPindex = object.getAttribute('pindex');
+
+  const colored = { positions: [] as number[], colors: [] as number[] };
+  const textured = new Map<string, { positions: number[]; uvs: number[]; texture: THREE.Texture | null }>();
+  const plain: number[] = [];
+
+  triangleElements.forEach((triangle, triangleIndex) => {
+    const corners = ['v1', 'v2', 'v3'].map((key) => Number(triangle.getAttribute(key)));
+    if (corners.some((v) => !Number.isInteger(v) || v < 0 || v >= vertexElements.length)) return;
+    const pushPositions = (target: number[]) => {
+      for (const v of corners) target.push(vertices[v * 3], vertices[v * 3 + 1], vertices[v * 3 + 2]);
+    };
+    const pushColors = (colors: THREE.Color[]) => {
+      pushPositions(colored.positions);
+      for (const color of colors) colored.colors.push(color.r, color.g, color.b);
+    };
+
+    // 1. Slicer painting
+    const paint = triangle.getAttribute('slic3rpe:mmu_segmentation') ?? triangle.getAttribute('paint_color');
+    const paintState = paint ? decodePaintState(paint) : 0;
+    if (paintState > 0) {
+      colorSources.add(triangle.hasAttribute('paint_color') ? 'paint_color' : 'mmu_segmentation');
+      const color = extruderColor(paintState);
+      pushColors([color, color, color]);
+      return;
+    }
+
+    // 2. Property groups (per corner indices, defaulting to p1 and the object's pid/pindex)
+    const pid = triangle.getAttribute('pid') ?? objectPid;
+    const group = pid !== null ? part.properties.get(pid) : undefined;
+    const p1 = triangle.getAttribute('p1') ?? objectPindex;
+    if (group && pid !== null && p1 !== null) {
+      const indices = [p1, triangle.getAttribute('p2') ?? p1, triangle.getAttribute('p3') ?? p1].map(Number);
+      if (group.kind === 'colors') {
+        colorSources.add('basematerials/colorgroup');
+        pushColors(indices.map((i) => group.colors[i] ?? new THREE.Color(UNCOLORED)));
+        return;
+      }
+      colorSources.add('texture2dgroup');
+      let bucket = textured.get(pid);
+      if (!bucket) {
+        bucket = { positions: [], uvs: [], texture: group.texture };
+        textured.set(pid, bucket);
+      }
+      pushPositions(bucket.positions);
+      for (const i of indices) bucket.uvs.push(group.coords[i * 2] ?? 0, group.coords[i * 2 + 1] ?? 0);
+      return;
+    }
+
+    // 3. Extruder of the object, volume or part
+    if (usesExtruders) {
+      colorSources.add('extruder');
+      const volume = volumes?.find((v) => triangleIndex >= v.first && triangleIndex <= v.last);
+      const color = extruderColor(volume?.extruder ?? context.extruder);
+      pushColors([color, color, color]);
+      return;
+    }
+
+    pushPositions(plain);
+  });
+
+  const name = object.getAttribute('name') || `object_${object.getAttribute('id')}`;
+  const meshes: THREE.Mesh[] = [];
+  const addMesh = (positions: number[], material: THREE.Material, attributes: Record<string, THREE.BufferAttribute> = {}) => {
+    if (positions.length === 0) return;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    for (const [key, attribute] of Object.entries(attributes)) geometry.setAttribute(key, attribute);
+    geometry.computeVertexNormals();
+    const result = new THREE.Mesh(geometry, material);
+    result.name = name;
+    meshes.push(result);
+  };
+
+  addMesh(colored.positions, new THREE.MeshStandardMaterial({ vertexColors: true }), {
+    color: new THREE.Float32BufferAttribute(colored.colors, 3),
+  });
+  for (const bucket of textured.values()) {
+    addMesh(bucket.positions, new THREE.MeshStandardMaterial({ map: bucket.texture }), {
+      uv: new THREE.Float32BufferAttribute(bucket.uvs, 2),
+    });
+  }
+  addMesh(plain, new THREE.MeshStandardMaterial({ color: UNCOLORED }));
+
+  return meshes;
+}
+
+/**
+ * Read a 3MF package into a scene (millimeters, Z-up) holding one mesh per object and color
+ * source, placed by the build items.
+ */
+export async function import3MF(file: File): Promise<THREE.Group> {
+  const zip = await JSZip.loadAsync(file);
+  const rootPath = await findModelPath(zip);
+  if (!rootPath) throw new Error('No model file found in 3MF');
+
+  const rootDoc = parseXml(await zip.file(rootPath)!.async('text'), rootPath);
+  const unit = rootDoc.documentElement.getAttribute('unit') ?? 'millimeter';
+  const config = await readExtruderConfig(zip);
+
+  // Parts are read once, however many components refer to them
+  const parts = new Map<string, Promise<ModelPart>>([[rootPath, readModelPart(zip, rootDoc)]]);
+  const getPart = (path: string) => {
+    let part = parts.get(path);
+    if (!part) {
+      part = zip.file(path)?.async('text').then((text) => readModelPart(zip, parseXml(text, path)))
+        ?? Promise.reject(new Error(`Model part not found in 3MF: ${path}`));
+      parts.set(path, part);
+    }
+    return part;
+  };
+
+  const scene = new THREE.Group();
+  scene.name = file.name.replace(/\.[^/.]+$/, '');
+  scene.scale.setScalar(UNIT_SCALE[unit] ?? 1);
+  const colorSources = new Set<string>();
+
+  const addObject = async (
+    path: string,
+    objectId: string,
+    matrix: THREE.Matrix4,
+    context: MeshContext,
+    depth: number
+  ): Promise<void> => {
+    const part = await getPart(path);
+    const object = part.objects.get(objectId);
+    if (!object) {
+      console.warn(`[import3MF] Object ${objectId} not found in ${path}`);
+      return;
+    }
+
+    if (childElements(object, 'mesh').length > 0) {
+      for (const mesh of buildObjectMeshes(object, part, context, config, colorSources)) {
+        mesh.matrixAutoUpdate = false;
+        mesh.matrix.copy(matrix);
+        scene.add(mesh);
+      }
+      return;
+    }
+
+    if (depth >= MAX_COMPONENT_DEPTH) {
+      console.warn(`[import3MF] Components nested too deep at object ${objectId}`);
+      return;
+    }
+    for (const component of childElements(childElements(object, 'components')[0], 'component')) {
+      const componentId = component.getAttribute('objectid') ?? '';
+      const componentPath = component.getAttribute('p:path')?.replace(/^\//, '') ?? path;
+      const extruder = config.parts.get(`${context.rootObjectId}/${componentId}`) ?? context.extruder;
+      await addObject(
+        componentPath,
+        componentId,
+        matrix.clone().multiply(parseTransform(component.getAttribute('transform'))),
+        { ...context, extruder },
+        depth + 1
+      );
+    }
+  };
+
+  const items = childElements(childElements(rootDoc.documentElement, 'build')[0], 'item');
+  for (const item of items) {
+    const objectId = item.getAttribute('objectid') ?? '';
+    await addObject(rootPath, objectId, parseTransform(item.getAttribute('transform')), {
+      rootObjectId: objectId,
+      extruder: config.objects.get(objectId) ?? 1,
+    }, 0);
+  }
+
+  if (scene.children.length === 0) throw new Error('No mesh found in 3MF file');
+  scene.updateMatrixWorld(true);
+
+  console.log(`[import3MF] ${items.length} build items, ${scene.children.length} meshes, unit ${unit}, colors from: ${[...colorSources].join(', ') || 'none'}`);
+  return scene;
+}
@@ -27,18 +27,18 @@ export interface Inspect3MFResult {
 }
 
 /**
- * Inspect a 3MF file to analyze its structure and attributes
+ * Path of the root model part: the target of the package's 3D model relationship, then the
+ * usual locations, then any .model file in the 3D folder
  */
-export async function inspect3MF(file: File): Promise<Inspect3MFResult> {
-  const zip = await JSZip.loadAsync(file);
-  
-  const files: string[] = [];
-  zip.forEach((path) => {
-    files.push(path);
-  });
+export async function findModelPath(zip: JSZip): Promise<string | null> {
+  const rels = zip.file('_rels/.rels');
+  if (rels) {
+    const relsXml = await rels.async('text');
+    const startPart = /<Relationship\b[^>]*\bType="[^"]*\/3dmodel"[^>]*>/.exec(relsXml)?.[0];
+    const target = startPart && /\bTarget="\/?([^"]+)"/.exec(startPart)?.[1];
+    if (target && zip.file(target)) return target;
+  }
 
-  // Find the main model file
-  let modelFile: string | null = null;
   const possibleModelPaths = [
     '3D/3dmodel.model',
     '3D/Objects/model.model',
@@ -46,21 +46,25 @@ export async function inspect3MF(file: File): Promise<Inspect3MFResult> {
   ];
 
   for (const path of possibleModelPaths) {
-    if (zip.file(path)) {
-      modelFile = path;
-      break;
-    }
+    if (zip.file(path)) return path;
   }
 
   // Also check for any .model file in 3D folder
-  if (!modelFile) {
-    for (const path of files) {
-      if (path.endsWith('.model') && path.startsWith('3D/')) {
-        modelFile = path;
-        break;
-      }
-    }
-  }
+  return Object.keys(zip.files).find((path) => path.endsWith('.model') && path.startsWith('3D/')) ?? null;
+}
+
+/**
+ * Inspect a 3MF file to analyze its structure and attributes
+ */
+export async function inspect3MF(file: File): Promise<Inspect3MFResult> {
+  const zip = await JSZip.loadAsync(file);
+  
+  const files: string[] = [];
+  zip.forEach((path) => {
+    files.push(path);
+  });
+
+  const modelFile = await findModelPath(zip);
 
   let rawModelXml = '';
   const analysis = {
@@ -108,12 +112,26 @@ export async function inspect3MF(file: File): Promise<Inspect3MFResult> {
         issues.push(`XML Parse Error: ${parseError.textContent?.slice(0, 100)}`);
       }
       
+      // Meshes may live in object files referenced by components (e.g. Bambu Studio projects)
+      const meshDocs: Document[] = [doc];
+      const componentPaths = new Set<string>();
+      doc.querySelectorAll('component').forEach((component) => {
+        const path = component.getAttribute('p:path');
+        if (path) componentPaths.add(path.replace(/^\//, ''));
+      });
+      for (const path of componentPaths) {
+        const partFile = zip.file(path);
+        if (partFile) {
+          meshDocs.push(parser.parseFromString(await partFile.async('text'), 'text/xml'));
+        }
+      }
+      
       // Count vertices
-      const vertices = doc.querySelectorAll('vertex');
+      const vertices = meshDocs.flatMap((d) => Array.from(d.querySelectorAll('vertex')));
       analysis.vertexCount = vertices.length;
       
       // Count triangles and analyze attributes
-      const triangles = doc.querySelectorAll('triangle');
+      const triangles = meshDocs.flatMap((d) => Array.from(d.querySelectorAll('triangle')));
       analysis.triangleCount = triangles.length;
       
       const mmuValues = new Set<string>();
@@ -179,6 +197,8 @@ export async function inspect3MF(file: File): Promise<Inspect3MFResult> {
     'Metadata/Slic3r_PE.config',
     'Metadata/Slic3r_PE_model.config',
     'Metadata/model_settings.config',
+    'Metadata/project_settings.config',
+    'Metadata/plate_1.json',
   ];
   
   for (const path of configPaths) {
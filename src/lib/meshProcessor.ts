@@ -1,7 +1,12 @@
 import * as THREE from 'three';
-import { RGB, medianCut, findNearestColor } from './colorQuantization';
-import { simplifyGeometryAsync, getTriangleCount } from './meshSimplifier';
-import { MeshSource, extractColorsFromSources, combineSourcesToGeometry, extractColorsFromGeometry, getFirstMaterialFromSources } from './colorExtractor';
+import { RGB, ColorSpace, quantizeColors, createColorMatcher } from './colorQuantization';
+import { Filament, PaletteMode, selectFilamentsFromLibrary, snapPaletteToLibrary } from './filamentLibrary';
+import { simplifyGeometryAsync, getTriangleCount, UVDistortion } from './meshSimplifier';
+import { splitAlongColorBoundariesAsync } from './boundarySplitter';
+import { subdivideAdaptiveAsync } from './adaptiveSubdivision';
+import { cleanupColorRegionsAsync, resolveThinRegionsAsync } from './regionCleanup';
+import { MeshRepairResult, repairMeshAsync } from './meshRepair';
+import { MeshSource, SamplingMode, createTextureColorSampler, createTextureVarianceProbe, extractColorsFromSources, combineSourcesToGeometry, extractColorsFromGeometry, getMaterialSlots, getSlotTexturesFromSources } from './colorExtractor';
 
 export type DetailLevel = 'auto' | 'low' | 'medium' | 'high';
 export type SubdivisionLevel = DetailLevel; // Alias for backward compatibility
@@ -36,6 +41,10 @@ export interface ExportData {
   faceColorIndices: number[];
   /** The quantized color palette */
   palette: RGB[];
+  /** Texture of each material slot, indexed by the geometry's `materialId` (null when untextured), for texture-preserving export */
+  textures?: (THREE.Texture | null)[];
+  /** Library filament for each palette entry (same order), when the palette comes from the library */
+  filaments?: Filament[];
 }
 
 export interface ProcessingResult {
@@ -43,7 +52,34 @@ export interface ProcessingResult {
   processedTriangles: number;
   meshes: ProcessedMesh[];
   palette: RGB[];
+  /** Library filament for each palette entry, in 'library' and 'snap' palette modes */
+  filaments?: Filament[];
   colorStats: { color: RGB; count: number; percentage: number }[];
+  /** Color region counts before/after cleanup, when region cleanup ran */
+  regions?: {
+    before: number;
+    after: number;
+    changedFaces: number;
+  };
+  /** Printability check of color region widths against the nozzle */
+  thinRegions?: {
+    /** Width threshold used (mm) */
+    minWidth: number;
+    /** Regions found narrower than minWidth */
+    count: number;
+    /** Regions merged into a neighbor color */
+    merged: number;
+    /** Faces of the regions that are still too thin, for highlighting in the viewer */
+    geometry?: THREE.BufferGeometry;
+  };
+  /** Mesh repair stats, when the repair stage ran */
+  repair?: Omit<MeshRepairResult, 'geometry' | 'faceColorIndices'>;
+  /** Present when the model was decimated */
+  simplification?: {
+    /** Relative geometric + UV error reported by meshoptimizer */
+    error: number;
+    uvDistortion?: UVDistortion;
+  };
   /** Export data for 3MF: single solid mesh with per-triangle colors */
   exportData: ExportData;
   debugInfo?: {
@@ -58,11 +94,44 @@ export interface ProcessingResult {
 }
 
 export interface ProcessingProgress {
-  stage: 'simplifying' | 'subdividing' | 'sampling' | 'quantizing' | 'grouping' | 'building';
+  stage: 'simplifying' | 'subdividing' | 'sampling' | 'quantizing' | 'splitting' | 'cleaning' | 'repairing' | 'grouping' | 'building' | 'exporting';
   progress: number;
   message: string;
 }
 
+export type SubdivisionMode = 'uniform' | 'adaptive';
+
+export interface ProcessingOptions {
+  /** How face colors are read from textures (default: centroid) */
+  samplingMode?: SamplingMode;
+  /** Split every face (uniform) or only faces whose texture varies in color (adaptive). Default: uniform */
+  subdivisionMode?: SubdivisionMode;
+  /** Adaptive subdivision stops once edges are at or below this length in mm (default: 1) */
+  maxEdgeLength?: number;
+  /** Cut textured faces along color boundaries instead of giving each face one color */
+  splitColorBoundaries?: boolean;
+  /** Color regions smaller than this area (mm²) merge into their dominant neighbor (default: 0, off) */
+  minRegionArea?: number;
+  /** Majority filter passes over the face adjacency graph (default: 0) */
+  smoothingPasses?: number;
+  /** Flag color regions narrower than this nozzle diameter (mm); unset skips the check */
+  nozzleDiameter?: number;
+  /** Merge regions narrower than the nozzle into their dominant neighbor */
+  mergeThinRegions?: boolean;
+  /** Weld, fix winding, fill holes and drop bad faces before export (default: false) */
+  repairMesh?: boolean;
+  /** Color space used to build the palette and match faces to it (default: srgb) */
+  colorSpace?: ColorSpace;
+  /** k-means refinement iterations after median cut (default: 0) */
+  kMeansIterations?: number;
+  /** Whether the palette is free, picked from the filament library or snapped to it (default: auto) */
+  paletteMode?: PaletteMode;
+  /** Owned filaments used by the 'library' and 'snap' palette modes */
+  filamentLibrary?: Filament[];
+  /** Aborts the pipeline; intermediate geometries are disposed before the AbortError propagates */
+  signal?: AbortSignal;
+}
+
 // Safety limits
 export const TRIANGLE_LIMITS = {
   WARNING: 100000,
@@ -71,16 +140,31 @@ export const TRIANGLE_LIMITS = {
 
 const MAX_QUANTIZATION_SAMPLES = 50000;
 
+const DEFAULT_MAX_EDGE_LENGTH = 1;
+
 // Async helper to yield to UI
 async function yieldToUI(): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, 0));
 }
 
+// Evenly spaced subset of face colors, small enough for palette building
+function sampleColorsForQuantization(colors: RGB[]): RGB[] {
+  if (colors.length <= MAX_QUANTIZATION_SAMPLES) return colors;
+
+  const stride = Math.max(1, Math.floor(colors.length / MAX_QUANTIZATION_SAMPLES));
+  const sampled: RGB[] = [];
+  for (let i = 0; i < colors.length && sampled.length < MAX_QUANTIZATION_SAMPLES; i += stride) {
+    sampled.push(colors[i]);
+  }
+  return sampled;
+}
+
 // Simple subdivision: split each triangle into 4 (async version)
 async function subdivideGeometryAsync(
   geometry: THREE.BufferGeometry,
   iterations: number,
-  onProgress: (progress: ProcessingProgress) => void
+  onProgress: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
 ): Promise<THREE.BufferGeometry> {
   if (iterations === 0) return geometry.clone();
 
@@ -101,12 +185,14 @@ async function subdivideGeometryAsync(
     const positions = currentGeometry.getAttribute('position');
     const uvs = currentGeometry.getAttribute('uv');
     const normals = currentGeometry.getAttribute('normal');
+    const materialIds = currentGeometry.getAttribute('materialId');
 
     if (!positions) break;
 
     const newPositions: number[] = [];
     const newUvs: number[] = [];
     const newNormals: number[] = [];
+    const newMaterialIds: number[] = [];
 
     const triCount = positions.count / 3;
     const BATCH_SIZE = 1000;
@@ -181,12 +267,18 @@ async function subdivideGeometryAsync(
             newPositions.push(triangles[t][v].x, triangles[t][v].y, triangles[t][v].z);
             newUvs.push(uvTriangles[t][v].x, uvTriangles[t][v].y);
             newNormals.push(normalTriangles[t][v].x, normalTriangles[t][v].y, normalTriangles[t][v].z);
+            // Child faces keep the material slot of their parent
+            if (materialIds) newMaterialIds.push(materialIds.getX(i0));
           }
         }
       }
 
       if (batchStart % (BATCH_SIZE * 5) === 0) {
         await yieldToUI();
+        if (signal?.aborted) {
+          currentGeometry.dispose();
+          signal.throwIfAborted();
+        }
       }
     }
 
@@ -194,11 +286,18 @@ async function subdivideGeometryAsync(
     newGeometry.setAttribute('position', new THREE.Float32BufferAttribute(newPositions, 3));
     newGeometry.setAttribute('uv', new THREE.Float32BufferAttribute(newUvs, 2));
     newGeometry.setAttribute('normal', new THREE.Float32BufferAttribute(newNormals, 3));
+    if (materialIds) {
+      newGeometry.setAttribute('materialId', new THREE.Float32BufferAttribute(newMaterialIds, 1));
+    }
 
     currentGeometry.dispose();
     currentGeometry = newGeometry;
 
     await yieldToUI();
+    if (signal?.aborted) {
+      currentGeometry.dispose();
+      signal.throwIfAborted();
+    }
   }
 
   return currentGeometry;
@@ -223,12 +322,42 @@ function subdivideColors(colors: RGB[], iterations: number): RGB[] {
 }
 
 // Build meshes by color group (async version)
+// Copy a subset of faces of a triangle soup into a new geometry (position and normal)
+function extractFaces(geometry: THREE.BufferGeometry, faces: number[]): THREE.BufferGeometry {
+  const posAttr = geometry.getAttribute('position');
+  const normAttr = geometry.getAttribute('normal');
+  const positions = new Float32Array(faces.length * 9);
+  const normals = normAttr ? new Float32Array(faces.length * 9) : null;
+
+  faces.forEach((faceIdx, i) => {
+    for (let v = 0; v < 3; v++) {
+      const vertIdx = faceIdx * 3 + v;
+      const o = (i * 3 + v) * 3;
+      positions[o] = posAttr.getX(vertIdx);
+      positions[o + 1] = posAttr.getY(vertIdx);
+      positions[o + 2] = posAttr.getZ(vertIdx);
+      if (normals && normAttr) {
+        normals[o] = normAttr.getX(vertIdx);
+        normals[o + 1] = normAttr.getY(vertIdx);
+        normals[o + 2] = normAttr.getZ(vertIdx);
+      }
+    }
+  });
+
+  const result = new THREE.BufferGeometry();
+  result.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (normals) result.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  result.computeBoundingBox();
+  return result;
+}
+
 async function buildMeshesByColorAsync(
   geometry: THREE.BufferGeometry,
   faceColorIndices: number[],
   palette: RGB[],
   totalFaces: number,
-  onProgress: (progress: ProcessingProgress) => void
+  onProgress: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
 ): Promise<{ meshes: ProcessedMesh[]; colorStats: { color: RGB; count: number; percentage: number }[] }> {
   onProgress({
     stage: 'grouping',
@@ -246,6 +375,7 @@ async function buildMeshesByColorAsync(
   }
 
   await yieldToUI();
+  signal?.throwIfAborted();
 
   onProgress({
     stage: 'building',
@@ -305,6 +435,10 @@ async function buildMeshesByColorAsync(
     });
 
     await yieldToUI();
+    if (signal?.aborted) {
+      meshes.forEach(m => m.geometry.dispose());
+      signal.throwIfAborted();
+    }
   }
 
   return {
@@ -317,8 +451,32 @@ export async function processMeshAsync(
   sources: MeshSource[],
   detailLevel: DetailLevel,
   numColors: number,
-  onProgress: (progress: ProcessingProgress) => void
+  onProgress: (progress: ProcessingProgress) => void,
+  options: ProcessingOptions = {}
 ): Promise<ProcessingResult> {
+  const intermediates = new Set<THREE.BufferGeometry>();
+
+  try {
+    return await runPipelineAsync(sources, detailLevel, numColors, onProgress, options, intermediates);
+  } catch (err) {
+    // Free whatever the pipeline allocated before it was aborted (or failed)
+    intermediates.forEach(g => g.dispose());
+    throw err;
+  }
+}
+
+async function runPipelineAsync(
+  sources: MeshSource[],
+  detailLevel: DetailLevel,
+  numColors: number,
+  onProgress: (progress: ProcessingProgress) => void,
+  options: ProcessingOptions,
+  intermediates: Set<THREE.BufferGeometry>
+): Promise<ProcessingResult> {
+  const { signal } = options;
+  const colorSpace = options.colorSpace ?? 'srgb';
+  signal?.throwIfAborted();
+
   // Step 1: Extract colors from all sources BEFORE combining
   onProgress({
     stage: 'sampling',
@@ -328,7 +486,8 @@ export async function processMeshAsync(
 
   const { faceColors: originalFaceColors, debugInfo } = await extractColorsFromSources(
     sources,
-    (progress, message) => onProgress({ stage: 'sampling', progress, message })
+    (progress, message) => onProgress({ stage: 'sampling', progress, message }),
+    { samplingMode: options.samplingMode, signal }
   );
 
   console.log('[processMeshAsync] Extracted colors from', originalFaceColors.length, 'faces');
@@ -336,6 +495,7 @@ export async function processMeshAsync(
 
   // Step 2: Combine all sources into a single INDEXED geometry
   const combinedGeometry = combineSourcesToGeometry(sources);
+  intermediates.add(combinedGeometry);
   const originalTriangles = getTriangleCount(combinedGeometry);
 
   console.log('[processMeshAsync] Combined geometry:', {
@@ -359,6 +519,7 @@ export async function processMeshAsync(
 
   let baseGeometry = combinedGeometry;
   let baseFaceColors = originalFaceColors;
+  let simplification: ProcessingResult['simplification'];
 
   // Step 4: Simplify if model is too large
   if (needsSimplification) {
@@ -370,13 +531,26 @@ export async function processMeshAsync(
       message: `Simplificando malha (${originalTriangles.toLocaleString()} → ${simplifyTarget.toLocaleString()} triângulos)...`,
     });
 
-    const simplified = await simplifyGeometryAsync(combinedGeometry, simplifyTarget, 0.01);
+    // Label faces with a quick preview palette so color borders are kept as seams while decimating
+    let faceLabels: Uint8Array | undefined;
+    if (originalFaceColors.length === originalTriangles) {
+      const previewPalette = quantizeColors(sampleColorsForQuantization(originalFaceColors), numColors, { colorSpace });
+      const matchPreview = createColorMatcher(previewPalette, colorSpace);
+      faceLabels = Uint8Array.from(originalFaceColors, matchPreview);
+    }
+
+    const simplified = await simplifyGeometryAsync(combinedGeometry, simplifyTarget, 0.01, signal, {
+      faceLabels,
+      lockBorder: true,
+    });
+    simplification = { error: simplified.error, uvDistortion: simplified.uvDistortion };
     
     // IMPORTANT: Convert simplified (indexed) geometry to non-indexed for the rest of the pipeline
     // The buildMeshesByColorAsync and color mapping expect non-indexed geometry (vertex per face)
     const nonIndexedSimplified = simplified.geometry.toNonIndexed();
     simplified.geometry.dispose();
     baseGeometry = nonIndexedSimplified;
+    intermediates.add(baseGeometry);
 
     console.log('[processMeshAsync] After simplification:', {
       simplifiedTriangles: simplified.triangles,
@@ -386,8 +560,9 @@ export async function processMeshAsync(
 
     // Re-extract colors from the simplified geometry using UV sampling
     // This is critical: stride-based resampling destroys spatial coherence
-    const material = getFirstMaterialFromSources(sources);
-    if (material) {
+    // Each face is sampled with its own source material (texture or vertex colors) via materialId
+    const materialSlots = getMaterialSlots(sources);
+    if (materialSlots.length > 0) {
       onProgress({
         stage: 'sampling',
         progress: 50,
@@ -396,8 +571,9 @@ export async function processMeshAsync(
       
       baseFaceColors = await extractColorsFromGeometry(
         baseGeometry,
-        material,
-        (progress, message) => onProgress({ stage: 'sampling', progress: 50 + progress * 0.5, message })
+        materialSlots,
+        (progress, message) => onProgress({ stage: 'sampling', progress: 50 + progress * 0.5, message }),
+        { samplingMode: options.samplingMode, signal }
       );
       
       console.log('[processMeshAsync] Re-extracted colors from simplified geometry:', baseFaceColors.length);
@@ -421,6 +597,7 @@ export async function processMeshAsync(
     });
 
     await yieldToUI();
+    signal?.throwIfAborted();
   }
 
   // Step 5: Subdivide geometry (only for small models that need more detail)
@@ -429,13 +606,47 @@ export async function processMeshAsync(
   
   if (needsSubdivision && !needsSimplification) {
     const iterations = SUBDIVISION_ITERATIONS[detailLevel];
-    if (iterations > 0) {
-      subdividedGeometry = await subdivideGeometryAsync(baseGeometry, iterations, onProgress);
+    // One variance probe per material slot; vertex-colored and untextured slots are never refined
+    const slots = options.subdivisionMode === 'adaptive' ? getMaterialSlots(sources) : [];
+    const varianceProbes = await Promise.all(
+      slots.map(slot => (slot.material && !slot.vertexColors ? createTextureVarianceProbe(slot.material) : null))
+    );
+
+    if (varianceProbes.some(Boolean)) {
+      const adaptive = await subdivideAdaptiveAsync(
+        baseGeometry,
+        (uvs, materialId) => varianceProbes[materialId]?.(uvs) ?? 0,
+        {
+          maxEdgeLength: options.maxEdgeLength ?? DEFAULT_MAX_EDGE_LENGTH,
+          maxTriangles: Math.min(DETAIL_TARGETS[detailLevel], TRIANGLE_LIMITS.MAX),
+        },
+        (progress, message) => onProgress({ stage: 'subdividing', progress, message }),
+        signal
+      );
+      subdividedGeometry = adaptive.geometry;
+      intermediates.add(subdividedGeometry);
+
+      // Refined faces no longer map 1:n to the base faces, so sample them from their materials again
+      subdividedFaceColors = await extractColorsFromGeometry(
+        subdividedGeometry,
+        slots,
+        (progress, message) => onProgress({ stage: 'sampling', progress, message }),
+        { samplingMode: options.samplingMode, signal }
+      );
+    } else if (iterations > 0) {
+      subdividedGeometry = await subdivideGeometryAsync(baseGeometry, iterations, onProgress, signal);
+      intermediates.add(subdividedGeometry);
       subdividedFaceColors = subdivideColors(baseFaceColors, iterations);
     }
   }
+
+  // Mesh building and export expect a triangle soup (3 vertices per face)
+  if (subdividedGeometry.getIndex()) {
+    subdividedGeometry = subdividedGeometry.toNonIndexed();
+    intermediates.add(subdividedGeometry);
+  }
   
-  const processedTriangles = getTriangleCount(subdividedGeometry);
+  let processedTriangles = getTriangleCount(subdividedGeometry);
 
   console.log('[processMeshAsync] After processing:', processedTriangles, 'triangles,', subdividedFaceColors.length, 'colors');
 
@@ -446,19 +657,26 @@ export async function processMeshAsync(
     message: 'Quantizando cores...',
   });
   await yieldToUI();
+  signal?.throwIfAborted();
 
-  const colorsForQuantization = (() => {
-    if (subdividedFaceColors.length <= MAX_QUANTIZATION_SAMPLES) return subdividedFaceColors;
+  const colorsForQuantization = sampleColorsForQuantization(subdividedFaceColors);
 
-    const stride = Math.max(1, Math.floor(subdividedFaceColors.length / MAX_QUANTIZATION_SAMPLES));
-    const sampled: RGB[] = [];
-    for (let i = 0; i < subdividedFaceColors.length && sampled.length < MAX_QUANTIZATION_SAMPLES; i += stride) {
-      sampled.push(subdividedFaceColors[i]);
-    }
-    return sampled;
-  })();
+  const paletteMode = options.paletteMode ?? 'auto';
+  const library = options.filamentLibrary ?? [];
 
-  const palette = medianCut(colorsForQuantization, numColors);
+  let palette: RGB[];
+  let filaments: Filament[] | undefined;
+  if (paletteMode === 'library' && library.length > 0) {
+    ({ palette, filaments } = selectFilamentsFromLibrary(colorsForQuantization, library, numColors));
+  } else {
+    palette = quantizeColors(colorsForQuantization, numColors, {
+      colorSpace,
+      kMeansIterations: options.kMeansIterations,
+    });
+    if (paletteMode === 'snap' && library.length > 0) {
+      ({ palette, filaments } = snapPaletteToLibrary(palette, library));
+    }
+  }
 
   // Step 7: Assign each face to nearest palette color
   onProgress({
@@ -467,8 +685,107 @@ export async function processMeshAsync(
     message: 'Atribuindo cores às faces...',
   });
   await yieldToUI();
+  signal?.throwIfAborted();
+
+  const matchColor = createColorMatcher(palette, colorSpace);
+  let faceColorIndices: number[] = subdividedFaceColors.map(matchColor);
+
+  // Step 7b: Cut faces along texture color boundaries
+  if (options.splitColorBoundaries) {
+    // One sampler per material slot; faces of untextured slots are only cut where a textured
+    // neighbor splits a shared edge
+    const colorSamplers = await Promise.all(
+      getMaterialSlots(sources).map(slot => (slot.material && !slot.vertexColors ? createTextureColorSampler(slot.material) : null))
+    );
+
+    if (colorSamplers.some(Boolean)) {
+      onProgress({
+        stage: 'splitting',
+        progress: 0,
+        message: 'Recortando faces nas bordas de cor...',
+      });
+
+      const split = await splitAlongColorBoundariesAsync(
+        subdividedGeometry,
+        faceColorIndices,
+        (u, v, materialId) => {
+          const sampleColor = colorSamplers[materialId];
+          return sampleColor ? matchColor(sampleColor(u, v)) : null;
+        },
+        TRIANGLE_LIMITS.MAX,
+        (progress) => onProgress({
+          stage: 'splitting',
+          progress,
+          message: `Recortando faces nas bordas de cor... ${Math.round(progress)}%`,
+        }),
+        signal
+      );
+      intermediates.add(split.geometry);
 
-  const faceColorIndices: number[] = subdividedFaceColors.map((c) => findNearestColor(c, palette));
+      subdividedGeometry.dispose();
+      subdividedGeometry = split.geometry;
+      faceColorIndices = split.faceColorIndices;
+      processedTriangles = faceColorIndices.length;
+    }
+  }
+
+  // Step 7c: Remove lone triangles and small color islands
+  let regions: ProcessingResult['regions'];
+  const minRegionArea = options.minRegionArea ?? 0;
+  const smoothingPasses = options.smoothingPasses ?? 0;
+  if (minRegionArea > 0 || smoothingPasses > 0) {
+    const cleanup = await cleanupColorRegionsAsync(
+      subdividedGeometry,
+      faceColorIndices,
+      { minRegionArea, smoothingPasses },
+      (progress, message) => onProgress({ stage: 'cleaning', progress, message }),
+      signal
+    );
+    faceColorIndices = cleanup.faceColorIndices;
+    regions = {
+      before: cleanup.regionsBefore,
+      after: cleanup.regionsAfter,
+      changedFaces: cleanup.changedFaces,
+    };
+  }
+
+  // Step 7d: Printability - regions narrower than the nozzle
+  let thinRegions: ProcessingResult['thinRegions'];
+  if (options.nozzleDiameter && options.nozzleDiameter > 0) {
+    const thin = await resolveThinRegionsAsync(
+      subdividedGeometry,
+      faceColorIndices,
+      { minWidth: options.nozzleDiameter, merge: !!options.mergeThinRegions },
+      (progress, message) => onProgress({ stage: 'cleaning', progress, message }),
+      signal
+    );
+    faceColorIndices = thin.faceColorIndices;
+    thinRegions = {
+      minWidth: options.nozzleDiameter,
+      count: thin.thinRegions,
+      merged: thin.mergedRegions,
+      geometry: thin.thinFaces.length > 0 ? extractFaces(subdividedGeometry, thin.thinFaces) : undefined,
+    };
+  }
+
+  // Step 7e: Repair (watertight, consistently wound solid for the slicer)
+  let repair: ProcessingResult['repair'];
+  if (options.repairMesh) {
+    const { geometry: repaired, faceColorIndices: repairedColors, ...stats } = await repairMeshAsync(
+      subdividedGeometry,
+      faceColorIndices,
+      {},
+      (progress, message) => onProgress({ stage: 'repairing', progress, message }),
+      signal
+    );
+    intermediates.add(repaired);
+
+    subdividedGeometry.dispose();
+    subdividedGeometry = repaired;
+    faceColorIndices = repairedColors;
+    processedTriangles = faceColorIndices.length;
+    repair = stats;
+  }
 
   // Step 8: Build meshes by color (for preview/visualization)
   const { meshes, colorStats } = await buildMeshesByColorAsync(
@@ -476,7 +793,8 @@ export async function processMeshAsync(
     faceColorIndices,
     palette,
     processedTriangles,
-    onProgress
+    onProgress,
+    signal
   );
 
   // Create export data: clone geometry before disposing (for 3MF export as single solid mesh)
@@ -493,11 +811,18 @@ export async function processMeshAsync(
     processedTriangles,
     meshes,
     palette,
+    filaments,
     colorStats,
+    regions,
+    thinRegions,
+    repair,
+    simplification,
     exportData: {
       geometry: exportGeometry,
       faceColorIndices,
       palette,
+      textures: getSlotTexturesFromSources(sources),
+      filaments,
     },
     debugInfo,
   };
@@ -0,0 +1,583 @@
+// Mesh repair before export: weld, drop degenerate/duplicate/non-manifold faces, make winding
+// consistent, fill boundary holes and orient closed shells outward, so slicers load a clean solid
+import * as THREE from 'three';
+
+export interface MeshStats {
+  triangles: number;
+  vertices: number;
+  /** Edges used by a single face (holes, open borders) */
+  boundaryEdges: number;
+  /** Edges shared by more than two faces */
+  nonManifoldEdges: number;
+  /** Connected components */
+  shells: number;
+}
+
+export interface MeshRepairOptions {
+  /** Vertices closer than this are merged (mm, default: 0.01) */
+  weldTolerance?: number;
+  /** Close boundary loops with new faces (default: true) */
+  fillHoles?: boolean;
+}
+
+export interface MeshRepairResult {
+  /** Repaired triangle soup (3 vertices per face), attributes carried over from the input */
+  geometry: THREE.BufferGeometry;
+  faceColorIndices: number[];
+  /** Stats with vertices merged only where exactly coincident, as a slicer sees the input */
+  before: MeshStats;
+  after: MeshStats;
+  weldedVertices: number;
+  removedDegenerate: number;
+  removedDuplicate: number;
+  removedNonManifold: number;
+  flippedFaces: number;
+  filledHoles: number;
+}
+
+export const DEFAULT_WELD_TOLERANCE = 0.01;
+
+// Faces below this area (mm²) are degenerate
+const AREA_EPSILON = 1e-10;
+
+// Async helper to yield to UI
+async function yieldToUI(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+interface WeldResult {
+  /** Welded vertex of each corner */
+  ids: Uint32Array;
+  /** Position of each welded vertex (x, y, z) */
+  positions: number[];
+  /** A corner of each welded vertex, to copy the other attributes from */
+  representatives: number[];
+}
+
+/**
+ * Merge corners closer than `tolerance`, on a spatial hash with cells of that size.
+ * A zero tolerance merges exactly coincident corners only.
+ */
+function weldCorners(
+  posAttr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  cornerVertex: (corner: number) => number,
+  cornerCount: number,
+  tolerance: number
+): WeldResult {
+  const ids = new Uint32Array(cornerCount);
+  const positions: number[] = [];
+  const representatives: number[] = [];
+  const cells = new Map<string, number[]>();
+  const cellSize = tolerance > 0 ? tolerance : 1;
+  const toleranceSq = tolerance * tolerance;
+
+  const findIn = (key: string, x: number, y: number, z: number): number => {
+    const cell = cells.get(key);
+    if (!cell) return -1;
+    for (const id of cell) {
+      const dx = positions[id * 3] - x;
+      const dy = positions[id * 3 + 1] - y;
+      const dz = positions[id * 3 + 2] - z;
+      if (dx * dx + dy * dy + dz * dz <= toleranceSq) return id;
+    }
+    return -1;
+  };
+
+  for (let corner = 0; corner < cornerCount; corner++) {
+    const vi = cornerVertex(corner);
+    const x = posAttr.getX(vi);
+    const y = posAttr.getY(vi);
+    const z = posAttr.getZ(vi);
+    const cx = Math.floor(x / cellSize);
+    const cy = Math.floor(y / cellSize);
+    const cz = Math.floor(z / cellSize);
+    const key = tolerance > 0 ? `${cx},${cy},${cz}` : `${x},${y},${z}`;
+
+    let id = findIn(key, x, y, z);
+    // Points within tolerance may fall in a neighboring cell
+    for (let n = 0; id < 0 && tolerance > 0 && n < 27; n++) {
+      if (n === 13) continue;
+      id = findIn(`${cx + (n % 3) - 1},${cy + (Math.floor(n / 3) % 3) - 1},${cz + Math.floor(n / 9) - 1}`, x, y, z);
+    }
+
+    if (id < 0) {
+      id = representatives.length;
+      positions.push(x, y, z);
+      representatives.push(corner);
+      const cell = cells.get(key);
+      if (cell) cell.push(id);
+      else cells.set(key, [id]);
+    }
+    ids[corner] = id;
+  }
+
+  return { ids, positions, representatives };
+}
+
+const edgeKey = (a: number, b: number, vertexCount: number) => (a < b ? a * vertexCount + b : b * vertexCount + a);
+
+function findRoot(parent: Uint32Array, i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+/** Shell id of each face: faces are connected through shared edges */
+function labelShells(faces: ArrayLike<number>, faceCount: number, vertexCount: number): { shellOfFace: Uint32Array; shells: number } {
+  const parent = new Uint32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) parent[f] = f;
+
+  const firstFace = new Map<number, number>();
+  for (let f = 0; f < faceCount; f++) {
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(faces[f * 3 + e], faces[f * 3 + ((e + 1) % 3)], vertexCount);
+      const other = firstFace.get(key);
+      if (other === undefined) firstFace.set(key, f);
+      else parent[findRoot(parent, f)] = findRoot(parent, other);
+    }
+  }
+
+  const shellOfFace = new Uint32Array(faceCount);
+  const shellIds = new Map<number, number>();
+  for (let f = 0; f < faceCount; f++) {
+    const root = findRoot(parent, f);
+    let id = shellIds.get(root);
+    if (id === undefined) {
+      id = shellIds.size;
+      shellIds.set(root, id);
+    }
+    shellOfFace[f] = id;
+  }
+
+  return { shellOfFace, shells: shellIds.size };
+}
+
+// Skewed so parity rays rarely graze an edge or vertex exactly
+const PARITY_RAY_DIRECTION = new THREE.Vector3(1, 0.0013, 0.0029).normalize();
+
+/** Whether `point` lies inside the closed shell made of `shellFaces` (odd number of ray crossings) */
+function isInsideShell(point: THREE.Vector3, shellFaces: number[], faces: ArrayLike<number>, positions: ArrayLike<number>): boolean {
+  const ray = new THREE.Ray(point, PARITY_RAY_DIRECTION);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const hit = new THREE.Vector3();
+
+  let crossings = 0;
+  for (const f of shellFaces) {
+    a.fromArray(positions, faces[f * 3] * 3);
+    b.fromArray(positions, faces[f * 3 + 1] * 3);
+    c.fromArray(positions, faces[f * 3 + 2] * 3);
+    if (ray.intersectTriangle(a, b, c, false, hit)) crossings++;
+  }
+  return crossings % 2 === 1;
+}
+
+function analyzeMesh(faces: ArrayLike<number>, faceCount: number, vertexCount: number): MeshStats {
+  const edgeUse = new Map<number, number>();
+  const usedVertices = new Set<number>();
+
+  for (let f = 0; f < faceCount; f++) {
+    for (let e = 0; e < 3; e++) {
+      const a = faces[f * 3 + e];
+      usedVertices.add(a);
+      const key = edgeKey(a, faces[f * 3 + ((e + 1) % 3)], vertexCount);
+      edgeUse.set(key, (edgeUse.get(key) || 0) + 1);
+    }
+  }
+
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  for (const count of edgeUse.values()) {
+    if (count === 1) boundaryEdges++;
+    else if (count > 2) nonManifoldEdges++;
+  }
+
+  return {
+    triangles: faceCount,
+    vertices: usedVertices.size,
+    boundaryEdges,
+    nonManifoldEdges,
+    shells: labelShells(faces, faceCount, vertexCount).shells,
+  };
+}
+
+/**
+ * Triangulate a hole loop (vertex ids in fill order). The loop is projected on its Newell plane
+ * and ear-clipped; loops that don't project cleanly are fanned around a new center vertex.
+ * Triangles are returned with the loop's orientation.
+ */
+function triangulateHole(loop: number[], positions: number[]): { triangles: number[][]; center?: THREE.Vector3 } {
+  const points = loop.map(v => new THREE.Vector3(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]));
+  if (loop.length === 3) return { triangles: [[0, 1, 2]] };
+
+  // Newell normal: orientation of the loop
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    normal.x += (p.y - q.y) * (p.z + q.z);
+    normal.y += (p.z - q.z) * (p.x + q.x);
+    normal.z += (p.x - q.x) * (p.y + q.y);
+  }
+
+  if (normal.lengthSq() > 0) {
+    normal.normalize();
+    const u = new THREE.Vector3().crossVectors(normal, Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0)).normalize();
+    const w = new THREE.Vector3().crossVectors(normal, u);
+    const contour = points.map(p => new THREE.Vector2(p.dot(u), p.dot(w)));
+    const triangles = THREE.ShapeUtils.triangulateShape(contour, []);
+
+    if (triangles.length === loop.length - 2) {
+      const ab = new THREE.Vector3();
+      const ac = new THREE.Vector3();
+      return {
+        triangles: triangles.map(([i, j, k]) => {
+          ab.subVectors(points[j], points[i]);
+          ac.subVectors(points[k], points[i]);
+          return ab.cross(ac).dot(normal) < 0 ? [i, k, j] : [i, j, k];
+        }),
+      };
+    }
+  }
+
+  const center = points.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(points.length);
+  // -1 stands for the center vertex
+  return { triangles: loop.map((_, i) => [i, (i + 1) % loop.length, -1]), center };
+}
+
+/**
+ * Repair a triangle soup for printing. Faces keep their color; faces added to close holes take
+ * the most common color around the hole.
+ */
+export async function repairMeshAsync(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  options: MeshRepairOptions = {},
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<MeshRepairResult> {
+  const tolerance = options.weldTolerance ?? DEFAULT_WELD_TOLERANCE;
+  const posAttr = geometry.getAttribute('position');
+  const indexAttr = geometry.getIndex();
+  const inputFaces = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+  const cornerVertex = (corner: number) => (indexAttr ? indexAttr.getX(corner) : corner);
+
+  onProgress?.(0, 'Analisando malha...');
+  const exact = weldCorners(posAttr, cornerVertex, inputFaces * 3, 0);
+  const before = analyzeMesh(exact.ids, inputFaces, exact.representatives.length);
+  await yieldToUI();
+  signal?.throwIfAborted();
+
+  // 1. Weld
+  onProgress?.(15, 'Soldando vértices...');
+  const { ids, positions, representatives } = weldCorners(posAttr, cornerVertex, inputFaces * 3, tolerance);
+  const weldedVertices = exact.representatives.length - representatives.length;
+  await yieldToUI();
+  signal?.throwIfAborted();
+
+  // Faces as welded vertex ids, the input corners they came from, and their color
+  let faces: number[] = [];
+  let sources: number[] = [];
+  let colors: number[] = [];
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const tri = new THREE.Triangle(a, b, c);
+  const faceArea = (v0: number, v1: number, v2: number) => {
+    a.fromArray(positions, v0 * 3);
+    b.fromArray(positions, v1 * 3);
+    c.fromArray(positions, v2 * 3);
+    return tri.getArea();
+  };
+
+  // 2. Degenerate and duplicate faces (same three vertices in any order or winding)
+  let removedDegenerate = 0;
+  let removedDuplicate = 0;
+  const seen = new Set<string>();
+  for (let f = 0; f < inputFaces; f++) {
+    const [v0, v1, v2] = [ids[f * 3], ids[f * 3 + 1], ids[f * 3 + 2]];
+    if (v0 === v1 || v1 === v2 || v2 === v0 || faceArea(v0, v1, v2) < AREA_EPSILON) {
+      removedDegenerate++;
+      continue;
+    }
+    const key = [v0, v1, v2].sort((x, y) => x - y).join(',');
+    if (seen.has(key)) {
+      removedDuplicate++;
+      continue;
+    }
+    seen.add(key);
+    faces.push(v0, v1, v2);
+    sources.push(f * 3, f * 3 + 1, f * 3 + 2);
+    colors.push(faceColorIndices[f] ?? 0);
+  }
+  seen.clear();
+
+  let vertexCount = representatives.length;
+  let faceCount = colors.length;
+
+  // 3. Non-manifold edges: keep the two largest faces on each
+  onProgress?.(30, 'Removendo arestas não-manifold...');
+  const facesOnEdge = new Map<number, number[]>();
+  for (let f = 0; f < faceCount; f++) {
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(faces[f * 3 + e], faces[f * 3 + ((e + 1) % 3)], vertexCount);
+      const list = facesOnEdge.get(key);
+      if (list) list.push(f);
+      else facesOnEdge.set(key, [f]);
+    }
+  }
+
+  const removed = new Uint8Array(faceCount);
+  for (const list of facesOnEdge.values()) {
+    if (list.length <= 2) continue;
+    const alive = list.filter(f => !removed[f]);
+    if (alive.length <= 2) continue;
+    alive
+      .sort((x, y) => faceArea(faces[y * 3], faces[y * 3 + 1], faces[y * 3 + 2]) - faceArea(faces[x * 3], faces[x * 3 + 1], faces[x * 3 + 2]))
+      .slice(2)
+      .forEach(f => { removed[f] = 1; });
+  }
+  facesOnEdge.clear();
+
+  let removedNonManifold = 0;
+  if (removed.some(Boolean)) {
+    const keptFaces: number[] = [];
+    const keptSources: number[] = [];
+    const keptColors: number[] = [];
+    for (let f = 0; f < faceCount; f++) {
+      if (removed[f]) {
+        removedNonManifold++;
+        continue;
+      }
+      keptFaces.push(faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2]);
+      keptSources.push(sources[f * 3], sources[f * 3 + 1], sources[f * 3 + 2]);
+      keptColors.push(colors[f]);
+    }
+    faces = keptFaces;
+    sources = keptSources;
+    colors = keptColors;
+    faceCount = colors.length;
+  }
+  await yieldToUI();
+  signal?.throwIfAborted();
+
+  const flip = (f: number) => {
+    [faces[f * 3 + 1], faces[f * 3 + 2]] = [faces[f * 3 + 2], faces[f * 3 + 1]];
+    [sources[f * 3 + 1], sources[f * 3 + 2]] = [sources[f * 3 + 2], sources[f * 3 + 1]];
+  };
+
+  // 4. Consistent winding: neighbors across a manifold edge must traverse it in opposite directions
+  onProgress?.(45, 'Corrigindo orientação das faces...');
+  const edgeFaces = new Map<number, number[]>();
+  for (let f = 0; f < faceCount; f++) {
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(faces[f * 3 + e], faces[f * 3 + ((e + 1) % 3)], vertexCount);
+      const list = edgeFaces.get(key);
+      if (list) list.push(f);
+      else edgeFaces.set(key, [f]);
+    }
+  }
+
+  const hasDirectedEdge = (f: number, from: number, to: number) =>
+    (faces[f * 3] === from && faces[f * 3 + 1] === to) ||
+    (faces[f * 3 + 1] === from && faces[f * 3 + 2] === to) ||
+    (faces[f * 3 + 2] === from && faces[f * 3] === to);
+
+  let flippedFaces = 0;
+  const visited = new Uint8Array(faceCount);
+  const queue: number[] = [];
+  for (let seed = 0; seed < faceCount; seed++) {
+    if (visited[seed]) continue;
+    visited[seed] = 1;
+    queue.push(seed);
+
+    while (queue.length > 0) {
+      const f = queue.pop()!;
+      for (let e = 0; e < 3; e++) {
+        const from = faces[f * 3 + e];
+        const to = faces[f * 3 + ((e + 1) % 3)];
+        const list = edgeFaces.get(edgeKey(from, to, vertexCount))!;
+        if (list.length !== 2) continue;
+        const g = list[0] === f ? list[1] : list[0];
+        if (visited[g]) continue;
+        if (hasDirectedEdge(g, from, to)) {
+          flip(g);
+          flippedFaces++;
+        }
+        visited[g] = 1;
+        queue.push(g);
+      }
+    }
+  }
+  await yieldToUI();
+  signal?.throwIfAborted();
+
+  // 5. Fill holes: boundary edges a→b are closed by faces traversing b→a
+  let filledHoles = 0;
+  if (options.fillHoles ?? true) {
+    onProgress?.(60, 'Fechando furos...');
+    const outgoing = new Map<number, { to: number; color: number }[]>();
+    for (let f = 0; f < faceCount; f++) {
+      for (let e = 0; e < 3; e++) {
+        const from = faces[f * 3 + e];
+        const to = faces[f * 3 + ((e + 1) % 3)];
+        if (edgeFaces.get(edgeKey(from, to, vertexCount))!.length !== 1) continue;
+        const half = { to: from, color: colors[f] };
+        const list = outgoing.get(to);
+        if (list) list.push(half);
+        else outgoing.set(to, [half]);
+      }
+    }
+
+    for (const start of Array.from(outgoing.keys())) {
+      while ((outgoing.get(start)?.length ?? 0) > 0) {
+        const loop = [start];
+        const colorCount = new Map<number, number>();
+        let current = start;
+        let closed = false;
+
+        while (loop.length <= outgoing.size + 1) {
+          const next = outgoing.get(current)?.pop();
+          if (!next) break;
+          colorCount.set(next.color, (colorCount.get(next.color) || 0) + 1);
+          if (next.to === start) {
+            closed = true;
+            break;
+          }
+          loop.push(next.to);
+          current = next.to;
+        }
+        if (!closed || loop.length < 3) continue;
+
+        const color = Array.from(colorCount.entries()).reduce((x, y) => (y[1] > x[1] ? y : x))[0];
+        const { triangles, center } = triangulateHole(loop, positions);
+        let centerId = -1;
+        if (center) {
+          centerId = vertexCount++;
+          positions.push(center.x, center.y, center.z);
+          representatives.push(representatives[loop[0]]);
+        }
+
+        for (const [i, j, k] of triangles) {
+          const corner = (n: number) => (n < 0 ? centerId : loop[n]);
+          const [v0, v1, v2] = [corner(i), corner(j), corner(k)];
+          faces.push(v0, v1, v2);
+          sources.push(representatives[v0], representatives[v1], representatives[v2]);
+          colors.push(color);
+        }
+        filledHoles++;
+
+        if (filledHoles % 100 === 0) {
+          await yieldToUI();
+          signal?.throwIfAborted();
+        }
+      }
+    }
+    faceCount = colors.length;
+  }
+  edgeFaces.clear();
+
+  // 6. Closed shells face outward (positive signed volume). Shells enclosed by another closed
+  // shell are left as they are: the walls of an inner cavity rightly face inward
+  onProgress?.(80, 'Orientando cascas...');
+  const { shellOfFace, shells } = labelShells(faces, faceCount, vertexCount);
+  const volumes = new Float64Array(shells);
+  const shellBoundary = new Uint8Array(shells);
+  const shellFaces: number[][] = Array.from({ length: shells }, () => []);
+  const shellBounds = Array.from({ length: shells }, () => new THREE.Box3());
+  const edgeUse = new Map<number, number>();
+  for (let f = 0; f < faceCount; f++) {
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(faces[f * 3 + e], faces[f * 3 + ((e + 1) % 3)], vertexCount);
+      edgeUse.set(key, (edgeUse.get(key) || 0) + 1);
+    }
+  }
+  for (let f = 0; f < faceCount; f++) {
+    const shell = shellOfFace[f];
+    a.fromArray(positions, faces[f * 3] * 3);
+    b.fromArray(positions, faces[f * 3 + 1] * 3);
+    c.fromArray(positions, faces[f * 3 + 2] * 3);
+    shellFaces[shell].push(f);
+    shellBounds[shell].expandByPoint(a).expandByPoint(b).expandByPoint(c);
+    volumes[shell] += a.dot(b.cross(c)) / 6;
+    for (let e = 0; e < 3; e++) {
+      if (edgeUse.get(edgeKey(faces[f * 3 + e], faces[f * 3 + ((e + 1) % 3)], vertexCount)) === 1) {
+        shellBoundary[shell] = 1;
+      }
+    }
+  }
+  edgeUse.clear();
+
+  // Tested from the centroid of one of its faces
+  const isEnclosed = (shell: number): boolean => {
+    const f = shellFaces[shell][0];
+    const point = new THREE.Vector3()
+      .fromArray(positions, faces[f * 3] * 3)
+      .add(b.fromArray(positions, faces[f * 3 + 1] * 3))
+      .add(c.fromArray(positions, faces[f * 3 + 2] * 3))
+      .divideScalar(3);
+    for (let other = 0; other < shells; other++) {
+      if (other === shell || shellBoundary[other] || !shellBounds[other].containsBox(shellBounds[shell])) continue;
+      if (isInsideShell(point, shellFaces[other], faces, positions)) return true;
+    }
+    return false;
+  };
+
+  for (let shell = 0; shell < shells; shell++) {
+    if (shellBoundary[shell] || volumes[shell] >= 0 || isEnclosed(shell)) continue;
+    for (const f of shellFaces[shell]) {
+      flip(f);
+      flippedFaces++;
+    }
+  }
+  await yieldToUI();
+  signal?.throwIfAborted();
+
+  const after = analyzeMesh(faces, faceCount, vertexCount);
+
+  // 7. Rebuild the soup: welded positions, other attributes from the source corners
+  onProgress?.(90, 'Reconstruindo geometria...');
+  const result = new THREE.BufferGeometry();
+  const outPositions = new Float32Array(faceCount * 9);
+  for (let i = 0; i < faces.length; i++) {
+    outPositions[i * 3] = positions[faces[i] * 3];
+    outPositions[i * 3 + 1] = positions[faces[i] * 3 + 1];
+    outPositions[i * 3 + 2] = positions[faces[i] * 3 + 2];
+  }
+  result.setAttribute('position', new THREE.BufferAttribute(outPositions, 3));
+
+  for (const [name, attr] of Object.entries(geometry.attributes)) {
+    if (name === 'position' || name === 'normal') continue;
+    // getX..getW return de-normalized values, so every attribute is written back as plain floats
+    const getters = [attr.getX, attr.getY, attr.getZ, attr.getW];
+    const out = new Float32Array(faces.length * attr.itemSize);
+    for (let i = 0; i < sources.length; i++) {
+      const vi = cornerVertex(sources[i]);
+      for (let k = 0; k < attr.itemSize; k++) {
+        out[i * attr.itemSize + k] = getters[k].call(attr, vi);
+      }
+    }
+    result.setAttribute(name, new THREE.BufferAttribute(out, attr.itemSize));
+  }
+  // Flipped and new faces need fresh normals
+  if (geometry.getAttribute('normal')) result.computeVertexNormals();
+
+  console.log('[repairMeshAsync]', { before, after, weldedVertices, removedDegenerate, removedDuplicate, removedNonManifold, flippedFaces, filledHoles });
+
+  return {
+    geometry: result,
+    faceColorIndices: colors,
+    before,
+    after,
+    weldedVertices,
+    removedDegenerate,
+    removedDuplicate,
+    removedNonManifold,
+    flippedFaces,
+    filledHoles,
+  };
+}
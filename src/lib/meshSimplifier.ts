@@ -1,12 +1,36 @@
 import * as THREE from 'three';
-import { MeshoptSimplifier } from 'meshoptimizer';
+import { MeshoptSimplifier, Flags } from 'meshoptimizer';
+
+export interface SimplifyOptions {
+  /**
+   * Label per face (e.g. its palette index). Vertices are split where adjacent faces have
+   * different labels, so color borders become seams that meshoptimizer keeps in place.
+   */
+  faceLabels?: ArrayLike<number>;
+  /** Weight of UV deviation in the simplification error; 0 simplifies by position only (default: 1) */
+  uvWeight?: number;
+  /** Keep open mesh borders fixed (default: false) */
+  lockBorder?: boolean;
+}
+
+/** Texture coordinate shift measured at sampled original vertices, in UV units */
+export interface UVDistortion {
+  mean: number;
+  max: number;
+  samples: number;
+}
 
 export interface SimplifyResult {
   geometry: THREE.BufferGeometry;
   triangles: number;
   error: number;
+  /** Only for geometries with UVs */
+  uvDistortion?: UVDistortion;
 }
 
+const DEFAULT_UV_WEIGHT = 1;
+const MAX_DISTORTION_SAMPLES = 4000;
+
 export function getTriangleCount(geometry: THREE.BufferGeometry): number {
   const pos = geometry.getAttribute('position');
   if (!pos) return 0;
@@ -31,10 +55,176 @@ function getOrCreateIndexArray(geometry: THREE.BufferGeometry): Uint32Array {
   return indices;
 }
 
+/**
+ * Give each (vertex, face label) pair its own vertex. Returns the new index buffer and, for
+ * every new vertex, the source vertex it was copied from.
+ */
+function splitVerticesByLabel(indices: Uint32Array, faceLabels: ArrayLike<number>): { indices: Uint32Array; remap: Uint32Array } {
+  let labelCount = 1;
+  for (let f = 0; f < faceLabels.length; f++) labelCount = Math.max(labelCount, faceLabels[f] + 1);
+
+  const lookup = new Map<number, number>();
+  const remap: number[] = [];
+  const split = new Uint32Array(indices.length);
+
+  for (let i = 0; i < indices.length; i++) {
+    const key = indices[i] * labelCount + faceLabels[Math.floor(i / 3)];
+    let vertex = lookup.get(key);
+    if (vertex === undefined) {
+      vertex = remap.length;
+      lookup.set(key, vertex);
+      remap.push(indices[i]);
+    }
+    split[i] = vertex;
+  }
+
+  return { indices: split, remap: Uint32Array.from(remap) };
+}
+
+function gatherAttribute(attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, remap: Uint32Array): Float32Array {
+  const getters = [attr.getX, attr.getY, attr.getZ, attr.getW].slice(0, attr.itemSize);
+  const out = new Float32Array(remap.length * attr.itemSize);
+  for (let i = 0; i < remap.length; i++) {
+    for (let c = 0; c < getters.length; c++) {
+      out[i * attr.itemSize + c] = getters[c].call(attr, remap[i]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Measure how far texture coordinates moved: for sampled vertices of the original mesh, find
+ * the closest point on the simplified surface and compare the UV interpolated there with the
+ * vertex's own UV. Where several surface points are equally close (UV seams), the smallest
+ * shift is taken.
+ */
+async function measureUVDistortionAsync(
+  original: THREE.BufferGeometry,
+  simplified: THREE.BufferGeometry,
+  signal?: AbortSignal
+): Promise<UVDistortion | undefined> {
+  const origPos = original.getAttribute('position');
+  const origUv = original.getAttribute('uv');
+  const pos = simplified.getAttribute('position');
+  const uv = simplified.getAttribute('uv');
+  const index = simplified.getIndex();
+  if (!origPos || !origUv || !pos || !uv) return undefined;
+
+  const faceCount = index ? index.count / 3 : pos.count / 3;
+  if (faceCount === 0) return undefined;
+  const corner = (f: number, k: number) => (index ? index.getX(f * 3 + k) : f * 3 + k);
+
+  // Uniform grid over the simplified triangles (about one triangle per cell)
+  simplified.computeBoundingBox();
+  const box = simplified.boundingBox!;
+  const size = box.getSize(new THREE.Vector3());
+  const cellSize = Math.max(size.x, size.y, size.z, 1e-9) / Math.max(1, Math.ceil(Math.cbrt(faceCount)));
+  const dims = [size.x, size.y, size.z].map(extent => Math.max(1, Math.ceil(extent / cellSize)));
+  const cellOf = (value: number, axis: number, min: number) =>
+    Math.min(dims[axis] - 1, Math.max(0, Math.floor((value - min) / cellSize)));
+  const cellKey = (x: number, y: number, z: number) => (z * dims[1] + y) * dims[0] + x;
+
+  const cells = new Map<number, number[]>();
+  const triBox = new THREE.Box3();
+  const v = new THREE.Vector3();
+  for (let f = 0; f < faceCount; f++) {
+    triBox.makeEmpty();
+    for (let k = 0; k < 3; k++) triBox.expandByPoint(v.fromBufferAttribute(pos, corner(f, k)));
+    const lo = [cellOf(triBox.min.x, 0, box.min.x), cellOf(triBox.min.y, 1, box.min.y), cellOf(triBox.min.z, 2, box.min.z)];
+    const hi = [cellOf(triBox.max.x, 0, box.min.x), cellOf(triBox.max.y, 1, box.min.y), cellOf(triBox.max.z, 2, box.min.z)];
+    for (let z = lo[2]; z <= hi[2]; z++) {
+      for (let y = lo[1]; y <= hi[1]; y++) {
+        for (let x = lo[0]; x <= hi[0]; x++) {
+          const key = cellKey(x, y, z);
+          const list = cells.get(key);
+          if (list) list.push(f);
+          else cells.set(key, [f]);
+        }
+      }
+    }
+  }
+
+  const tri = new THREE.Triangle();
+  const point = new THREE.Vector3();
+  const closest = new THREE.Vector3();
+  const bary = new THREE.Vector3();
+  const tolerance = size.length() * 1e-5;
+  const MAX_RING = 2;
+
+  const stride = Math.max(1, Math.floor(origPos.count / MAX_DISTORTION_SAMPLES));
+  let sum = 0;
+  let max = 0;
+  let samples = 0;
+
+  for (let i = 0, visits = 1; i < origPos.count; i += stride, visits++) {
+    point.fromBufferAttribute(origPos, i);
+    const u0 = origUv.getX(i);
+    const v0 = origUv.getY(i);
+    const cx = cellOf(point.x, 0, box.min.x);
+    const cy = cellOf(point.y, 1, box.min.y);
+    const cz = cellOf(point.z, 2, box.min.z);
+
+    const candidates: { distance: number; shift: number }[] = [];
+    const visited = new Set<number>();
+    let bestDistance = Infinity;
+
+    for (let ring = 0; ring <= MAX_RING && bestDistance > (ring - 1) * cellSize; ring++) {
+      for (let z = cz - ring; z <= cz + ring; z++) {
+        for (let y = cy - ring; y <= cy + ring; y++) {
+          for (let x = cx - ring; x <= cx + ring; x++) {
+            if (Math.max(Math.abs(x - cx), Math.abs(y - cy), Math.abs(z - cz)) !== ring) continue;
+            if (x < 0 || y < 0 || z < 0 || x >= dims[0] || y >= dims[1] || z >= dims[2]) continue;
+
+            for (const f of cells.get(cellKey(x, y, z)) ?? []) {
+              if (visited.has(f)) continue;
+              visited.add(f);
+
+              const a = corner(f, 0);
+              const b = corner(f, 1);
+              const c = corner(f, 2);
+              tri.a.fromBufferAttribute(pos, a);
+              tri.b.fromBufferAttribute(pos, b);
+              tri.c.fromBufferAttribute(pos, c);
+              tri.closestPointToPoint(point, closest);
+              const distance = closest.distanceTo(point);
+              if (distance > bestDistance + tolerance) continue;
+
+              tri.getBarycoord(closest, bary);
+              const u = uv.getX(a) * bary.x + uv.getX(b) * bary.y + uv.getX(c) * bary.z;
+              const w = uv.getY(a) * bary.x + uv.getY(b) * bary.y + uv.getY(c) * bary.z;
+              candidates.push({ distance, shift: Math.hypot(u - u0, w - v0) });
+              bestDistance = Math.min(bestDistance, distance);
+            }
+          }
+        }
+      }
+    }
+
+    let shift = Infinity;
+    for (const candidate of candidates) {
+      if (candidate.distance <= bestDistance + tolerance) shift = Math.min(shift, candidate.shift);
+    }
+    if (Number.isFinite(shift)) {
+      sum += shift;
+      max = Math.max(max, shift);
+      samples++;
+    }
+
+    if (visits % 500 === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
+    }
+  }
+
+  return { mean: samples > 0 ? sum / samples : 0, max, samples };
+}
+
 export async function simplifyGeometryAsync(
   geometry: THREE.BufferGeometry,
   targetTriangles: number,
-  targetError: number = 0.01
+  targetError: number = 0.01,
+  signal?: AbortSignal,
+  options: SimplifyOptions = {}
 ): Promise<SimplifyResult> {
   const posAttr = geometry.getAttribute('position');
   if (!posAttr) {
@@ -43,11 +233,22 @@ export async function simplifyGeometryAsync(
 
   // meshoptimizer uses WASM; wait for it
   await MeshoptSimplifier.ready;
+  signal?.throwIfAborted();
+
+  const sourceIndices = getOrCreateIndexArray(geometry);
+  const originalTriangles = Math.floor(sourceIndices.length / 3);
+  const labels = options.faceLabels && options.faceLabels.length === originalTriangles ? options.faceLabels : undefined;
+  const { indices, remap } = labels
+    ? splitVerticesByLabel(sourceIndices, labels)
+    : { indices: sourceIndices, remap: null };
+
+  const positions = remap ? gatherAttribute(posAttr, remap) : (posAttr.array as Float32Array);
+  const uvAttr = geometry.getAttribute('uv');
+  const uvs = uvAttr ? (remap ? gatherAttribute(uvAttr, remap) : (uvAttr.array as Float32Array)) : null;
 
-  const indices = getOrCreateIndexArray(geometry);
-  const positions = posAttr.array as Float32Array;
+  const uvWeight = options.uvWeight ?? DEFAULT_UV_WEIGHT;
+  const flags: Flags[] = options.lockBorder ? ['LockBorder'] : [];
 
-  const originalTriangles = Math.floor(indices.length / 3);
   const clampedTargetTriangles = Math.max(1, Math.min(targetTriangles, originalTriangles));
   const targetIndexCount = Math.floor(clampedTargetTriangles * 3);
 
@@ -57,16 +258,33 @@ export async function simplifyGeometryAsync(
     originalTriangles,
     targetTriangles: clampedTargetTriangles,
     targetIndexCount,
-    targetError
+    targetError,
+    splitVertices: remap ? remap.length - posAttr.count : 0,
+    uvWeight: uvs ? uvWeight : 0,
+    flags
   });
 
-  const [simplifiedIndices, error] = MeshoptSimplifier.simplify(
-    indices,
-    positions,
-    3,
-    targetIndexCount,
-    targetError
-  );
+  const [simplifiedIndices, error] = uvs && uvWeight > 0
+    ? MeshoptSimplifier.simplifyWithAttributes(
+        indices,
+        positions,
+        3,
+        uvs,
+        2,
+        [uvWeight, uvWeight],
+        null,
+        targetIndexCount,
+        targetError,
+        flags
+      )
+    : MeshoptSimplifier.simplify(
+        indices,
+        positions,
+        3,
+        targetIndexCount,
+        targetError,
+        flags
+      );
 
   const resultTriangles = simplifiedIndices.length / 3;
   
@@ -82,19 +300,32 @@ export async function simplifyGeometryAsync(
       'This may be due to non-indexed geometry or disconnected mesh topology.');
   }
 
+  // Carry every vertex attribute (normals, UVs, vertex colors, material ids)
   const simplifiedGeometry = new THREE.BufferGeometry();
-  simplifiedGeometry.setAttribute('position', posAttr);
-  const normalAttr = geometry.getAttribute('normal');
-  if (normalAttr) simplifiedGeometry.setAttribute('normal', normalAttr);
-  const uvAttr = geometry.getAttribute('uv');
-  if (uvAttr) simplifiedGeometry.setAttribute('uv', uvAttr);
+  for (const [name, attr] of Object.entries(geometry.attributes)) {
+    if (!remap) {
+      simplifiedGeometry.setAttribute(name, attr);
+    } else if (name === 'position') {
+      simplifiedGeometry.setAttribute(name, new THREE.BufferAttribute(positions, 3));
+    } else if (name === 'uv' && uvs) {
+      simplifiedGeometry.setAttribute(name, new THREE.BufferAttribute(uvs, 2));
+    } else {
+      simplifiedGeometry.setAttribute(name, new THREE.BufferAttribute(gatherAttribute(attr, remap), attr.itemSize));
+    }
+  }
 
   simplifiedGeometry.setIndex(new THREE.BufferAttribute(simplifiedIndices, 1));
   simplifiedGeometry.computeBoundingBox();
 
+  const uvDistortion = await measureUVDistortionAsync(geometry, simplifiedGeometry, signal);
+  if (uvDistortion) {
+    console.log('[simplifyGeometryAsync] UV distortion:', uvDistortion);
+  }
+
   return {
     geometry: simplifiedGeometry,
     triangles: simplifiedIndices.length / 3,
     error,
+    uvDistortion,
   };
 }
@@ -0,0 +1,173 @@
+// Model transform: orientation (3MF and slicers are Z-up), real-world size in millimeters (the
+// unit of every 3MF we write) and placement on the print bed. Orientation and size are applied
+// to the sources before processing, so every mm-based setting works on the printed part
+import * as THREE from 'three';
+import { MeshSource } from './colorExtractor';
+
+export type ModelFormat = 'gltf' | 'obj' | 'ply' | 'stl' | '3mf';
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export const UNIT_TO_MM: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+/**
+ * How the final size is chosen.
+ * - scale: uniform factor on top of the unit conversion
+ * - height / width / longest: fit that dimension to a target length in mm
+ */
+export type SizingMode = 'scale' | 'height' | 'width' | 'longest';
+
+export interface ModelSizing {
+  unit: LengthUnit;
+  mode: SizingMode;
+  /** Scale factor for 'scale', target length in mm otherwise */
+  value: number;
+}
+
+export type UpAxis = 'y' | 'z';
+
+export interface ModelOrientation {
+  /** Up axis of the source; Y-up models are rotated to Z-up */
+  upAxis: UpAxis;
+  /** Manual rotation applied after the up-axis conversion (quaternion x, y, z, w) */
+  rotation: [number, number, number, number];
+}
+
+export interface BedSize {
+  /** X extent (mm) */
+  width: number;
+  /** Y extent (mm) */
+  depth: number;
+}
+
+// Bambu Lab X1C / P1S
+export const DEFAULT_BED_SIZE: BedSize = { width: 256, depth: 256 };
+
+export interface UnitDetection {
+  unit: LengthUnit;
+  /** Why this unit was picked (shown to the user) */
+  reason: string;
+}
+
+// glTF models longer than this many "meters" were almost certainly authored in mm
+const MAX_PLAUSIBLE_METERS = 50;
+// Unitless models shorter than this many "millimeters" are too small to print as is
+const MIN_PLAUSIBLE_MM = 2;
+
+/**
+ * Guess the unit of the source coordinates. glTF is meters by specification; 3MF declares its
+ * unit and is converted to millimeters on import; OBJ, PLY and STL have no unit, so only
+ * implausible sizes move them away from millimeters.
+ */
+export function detectSourceUnit(format: ModelFormat, size: THREE.Vector3): UnitDetection {
+  const longest = Math.max(size.x, size.y, size.z);
+
+  if (format === '3mf') {
+    return { unit: 'mm', reason: '3MF declara a unidade — convertido para milímetros' };
+  }
+
+  if (format === 'gltf') {
+    if (longest > MAX_PLAUSIBLE_METERS) {
+      return { unit: 'mm', reason: `Grande demais para metros (${longest.toFixed(0)} unidades) — assumindo milímetros` };
+    }
+    return { unit: 'm', reason: 'glTF usa metros' };
+  }
+
+  if (longest > 0 && longest < MIN_PLAUSIBLE_MM) {
+    return { unit: 'm', reason: `Pequeno demais para milímetros (${longest.toFixed(3)} unidades) — assumindo metros` };
+  }
+  return { unit: 'mm', reason: `${format.toUpperCase()} não define unidade — assumindo milímetros` };
+}
+
+/** glTF is Y-up by specification; OBJ and PLY exporters disagree and STL and 3MF are Z-up, so those are left as is */
+export function getDefaultOrientation(format: ModelFormat): ModelOrientation {
+  return { upAxis: format === 'gltf' ? 'y' : 'z', rotation: [0, 0, 0, 1] };
+}
+
+/** Rotation from source axes to print axes (up-axis conversion, then the manual rotation) */
+export function getOrientationMatrix(orientation: ModelOrientation): THREE.Matrix4 {
+  const matrix = new THREE.Matrix4();
+  // Y-up → Z-up: +90° about X keeps the model's front (+Z) facing the front of the bed (-Y)
+  if (orientation.upAxis === 'y') matrix.makeRotationX(Math.PI / 2);
+  const rotation = new THREE.Quaternion().fromArray(orientation.rotation);
+  return matrix.premultiply(new THREE.Matrix4().makeRotationFromQuaternion(rotation));
+}
+
+/** Orientation with `rotation` (print axes) applied on top of the current one */
+export function applyRotation(orientation: ModelOrientation, rotation: THREE.Quaternion): ModelOrientation {
+  const combined = rotation.clone().multiply(new THREE.Quaternion().fromArray(orientation.rotation)).normalize();
+  return { ...orientation, rotation: combined.toArray() as ModelOrientation['rotation'] };
+}
+
+/** Orientation with an extra rotation about a print (world) axis */
+export function rotateOrientation(
+  orientation: ModelOrientation,
+  axis: 'x' | 'y' | 'z',
+  degrees: number
+): ModelOrientation {
+  const axisVector = new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+  return applyRotation(orientation, new THREE.Quaternion().setFromAxisAngle(axisVector, THREE.MathUtils.degToRad(degrees)));
+}
+
+/**
+ * Bounding box of all sources after their world transform and `matrix`. Vertices are visited
+ * one by one, so the box stays tight under arbitrary rotations.
+ */
+export function getSourcesBoundingBox(sources: MeshSource[], matrix?: THREE.Matrix4): THREE.Box3 {
+  const box = new THREE.Box3();
+  const transform = new THREE.Matrix4();
+  const v = new THREE.Vector3();
+
+  for (const source of sources) {
+    const posAttr = source.geometry.getAttribute('position');
+    if (!posAttr) continue;
+    transform.copy(source.matrixWorld);
+    if (matrix) transform.premultiply(matrix);
+    for (let i = 0; i < posAttr.count; i++) {
+      box.expandByPoint(v.fromBufferAttribute(posAttr, i).applyMatrix4(transform));
+    }
+  }
+
+  return box;
+}
+
+/**
+ * Scale from source units to final millimeters, given the oriented (Z-up) size.
+ * Height is Z, width is X.
+ */
+export function computeSizingScale(size: THREE.Vector3, sizing: ModelSizing): number {
+  const toMm = UNIT_TO_MM[sizing.unit];
+  if (sizing.mode === 'scale') return toMm * sizing.value;
+
+  const reference =
+    sizing.mode === 'height' ? size.z :
+    sizing.mode === 'width' ? size.x :
+    Math.max(size.x, size.y, size.z);
+
+  return reference > 0 && sizing.value > 0 ? sizing.value / reference : toMm;
+}
+
+/**
+ * Sources with `matrix` applied on top of their world transform. Geometries and materials
+ * are shared with the input.
+ */
+export function transformSources(sources: MeshSource[], matrix: THREE.Matrix4): MeshSource[] {
+  return sources.map(source => ({
+    ...source,
+    matrixWorld: matrix.clone().multiply(source.matrixWorld),
+  }));
+}
+
+/**
+ * Translation that centers `box` (print coordinates, mm) on the bed and drops its lowest point
+ * to Z=0. Slicer beds have their origin at the front-left corner.
+ */
+export function computeBedPlacement(box: THREE.Box3, bed: BedSize): THREE.Vector3 {
+  const center = box.getCenter(new THREE.Vector3());
+  return new THREE.Vector3(bed.width / 2 - center.x, bed.depth / 2 - center.y, -box.min.z);
+}
@@ -0,0 +1,54 @@
+// Web Worker entry: runs color extraction, simplification, subdivision, quantization,
+// grouping and 3MF zipping off the main thread.
+import * as THREE from 'three';
+import { processMeshAsync } from './meshProcessor';
+import { export3MF } from './export3MF';
+import {
+  WorkerRequest,
+  WorkerResponse,
+  deserializeSources,
+  deserializeGeometry,
+  deserializeTexture,
+  serializeProcessingResult,
+} from './workerProtocol';
+
+const ctx = self as unknown as Worker;
+
+function post(message: WorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer);
+}
+
+ctx.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'process') {
+      const sources = deserializeSources(request.sources);
+      const result = await processMeshAsync(
+        sources,
+        request.detailLevel,
+        request.numColors,
+        (progress) => post({ type: 'progress', progress }),
+        request.options
+      );
+
+      const transfer: Transferable[] = [];
+      const serialized = serializeProcessingResult(result, transfer);
+      post({ type: 'processed', result: serialized }, transfer);
+    } else if (request.type === 'export') {
+      const { geometry, textures, ...rest } = request.exportData;
+      const textureCache = new Map<ImageBitmap, THREE.Texture>();
+      const exportData = {
+        ...rest,
+        geometry: deserializeGeometry(geometry),
+        textures: textures.map(texture => (texture ? deserializeTexture(texture, textureCache) : null)),
+      };
+
+      const { blob, report } = await export3MF(exportData, request.filename, request.options);
+      post({ type: 'exported', blob, report });
+    }
+  } catch (err) {
+    console.error('[pipeline.worker]', err);
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,145 @@
+// Main-thread client for pipeline.worker.ts.
+// Each job spawns its own worker and terminates it when done (or when its signal aborts);
+// without Worker support the pipeline runs inline.
+import { MeshSource, getSlotTexturesFromSources } from './colorExtractor';
+import { DetailLevel, ExportData, ProcessingOptions, ProcessingProgress, ProcessingResult, processMeshAsync } from './meshProcessor';
+import { ExportOptions, ExportReport, export3MF } from './export3MF';
+import {
+  SerializedTexture,
+  WorkerRequest,
+  WorkerResponse,
+  deserializeProcessingResult,
+  serializeGeometry,
+  serializeSources,
+  serializeTexture,
+} from './workerProtocol';
+
+function createPipelineWorker(): Worker {
+  return new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+}
+
+function runWorkerJob<T>(
+  request: WorkerRequest,
+  transfer: Transferable[],
+  onResponse: (response: WorkerResponse) => T | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = createPipelineWorker();
+
+    // Terminating drops the worker heap, including every intermediate geometry
+    const onAbort = () => {
+      worker.terminate();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'error') {
+        finish();
+        reject(new Error(response.message));
+        return;
+      }
+
+      const result = onResponse(response);
+      if (result !== undefined) {
+        finish();
+        resolve(result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Falha no worker de processamento'));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Process mesh sources in a Web Worker. Same contract as processMeshAsync.
+ */
+export async function processMeshInWorker(
+  sources: MeshSource[],
+  detailLevel: DetailLevel,
+  numColors: number,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult> {
+  if (typeof Worker === 'undefined') {
+    return processMeshAsync(sources, detailLevel, numColors, onProgress ?? (() => {}), options);
+  }
+
+  const transfer: Transferable[] = [];
+  const serializedSources = await serializeSources(sources, transfer);
+  const { signal, ...workerOptions } = options;
+  // Texture objects stay on the main thread; the worker result only carries geometry
+  const textures = getSlotTexturesFromSources(sources);
+
+  return runWorkerJob<ProcessingResult>(
+    { type: 'process', sources: serializedSources, detailLevel, numColors, options: workerOptions },
+    transfer,
+    (response) => {
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return undefined;
+      }
+      if (response.type === 'processed') {
+        return deserializeProcessingResult(response.result, textures);
+      }
+      return undefined;
+    },
+    signal
+  );
+}
+
+/**
+ * Build the 3MF package in a Web Worker. Same contract as export3MF.
+ */
+export async function export3MFInWorker(
+  exportData: ExportData,
+  filename: string = 'model',
+  options: ExportOptions = {}
+): Promise<{ blob: Blob; report: ExportReport }> {
+  if (typeof Worker === 'undefined') {
+    return export3MF(exportData, filename, options);
+  }
+
+  const transfer: Transferable[] = [];
+  const { geometry, textures, ...rest } = exportData;
+  // AbortSignal can't be cloned into the worker; it is honored here instead
+  const { signal, ...workerOptions } = options;
+
+  // Slots sharing a texture share one ImageBitmap (the cache is keyed by texture uuid)
+  const serializedTextures: (SerializedTexture | null)[] = [];
+  if (textures && options.mode === 'texture') {
+    const cache = new Map<string, SerializedTexture>();
+    for (const texture of textures) {
+      serializedTextures.push(texture ? await serializeTexture(texture, cache, transfer) : null);
+    }
+  }
+
+  return runWorkerJob<{ blob: Blob; report: ExportReport }>(
+    {
+      type: 'export',
+      exportData: { ...rest, geometry: serializeGeometry(geometry, transfer), textures: serializedTextures },
+      filename,
+      options: workerOptions,
+    },
+    transfer,
+    (response) => (response.type === 'exported' ? { blob: response.blob, report: response.report } : undefined),
+    signal
+  );
+}
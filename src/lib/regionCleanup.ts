@@ -0,0 +1,359 @@
+// Region cleanup: removes lone triangles, small speckles and too-thin regions after palette
+// assignment, since every color island costs a filament swap (and purge) in the slicer
+import * as THREE from 'three';
+import { ColorRegions, FaceAdjacency, buildFaceAdjacencyAsync, labelColorRegions } from './faceAdjacency';
+
+export interface RegionCleanupOptions {
+  /** Regions smaller than this area (mm²) take the color of their dominant neighbor; 0 disables */
+  minRegionArea: number;
+  /** Majority filter passes run before merging small regions */
+  smoothingPasses: number;
+}
+
+export interface RegionCleanupResult {
+  faceColorIndices: number[];
+  regionsBefore: number;
+  regionsAfter: number;
+  /** Faces whose palette index changed */
+  changedFaces: number;
+}
+
+export interface ThinRegionOptions {
+  /** Regions narrower than this (mm), usually the nozzle diameter, are flagged */
+  minWidth: number;
+  /** Merge flagged regions into their dominant neighbor instead of only reporting them */
+  merge: boolean;
+}
+
+export interface ThinRegionResult {
+  faceColorIndices: number[];
+  /** Regions found below `minWidth` (before any merge) */
+  thinRegions: number;
+  /** Regions recolored by the merge */
+  mergedRegions: number;
+  /** Faces of regions still below `minWidth` */
+  thinFaces: number[];
+}
+
+// Merging can expose new small regions (e.g. a speckle inside a speckle), so repeat a few times
+const MAX_MERGE_ROUNDS = 8;
+
+// Binary min-heap of (face, distance) for Dijkstra
+class FaceHeap {
+  private faces: number[] = [];
+  private distances: number[] = [];
+
+  get size(): number {
+    return this.faces.length;
+  }
+
+  push(face: number, distance: number) {
+    let i = this.faces.length;
+    this.faces.push(face);
+    this.distances.push(distance);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.distances[parent] <= distance) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const top: [number, number] = [this.faces[0], this.distances[0]];
+    const lastFace = this.faces.pop()!;
+    const lastDistance = this.distances.pop()!;
+    if (this.faces.length > 0) {
+      this.faces[0] = lastFace;
+      this.distances[0] = lastDistance;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.faces.length && this.distances[left] < this.distances[smallest]) smallest = left;
+        if (right < this.faces.length && this.distances[right] < this.distances[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.faces[a], this.faces[b]] = [this.faces[b], this.faces[a]];
+    [this.distances[a], this.distances[b]] = [this.distances[b], this.distances[a]];
+  }
+}
+
+// Async helper to yield to UI
+async function yieldToUI(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// Neighbor color sharing the longest boundary with the given faces, excluding `ownColor`
+function dominantNeighborColor(
+  adjacency: FaceAdjacency,
+  faces: Iterable<number>,
+  colors: number[],
+  ownColor: number
+): number | null {
+  const weights = new Map<number, number>();
+  for (const f of faces) {
+    for (let i = adjacency.offsets[f]; i < adjacency.offsets[f + 1]; i++) {
+      const color = colors[adjacency.neighbors[i]];
+      if (color === ownColor) continue;
+      weights.set(color, (weights.get(color) ?? 0) + adjacency.edgeLengths[i]);
+    }
+  }
+
+  let best: number | null = null;
+  let bestWeight = 0;
+  for (const [color, weight] of weights) {
+    if (weight > bestWeight) {
+      best = color;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+/**
+ * Majority filter: a face switches to the neighbor color that covers more than half of its
+ * boundary (by shared edge length). Each pass reads the colors of the previous one.
+ */
+function majorityFilter(adjacency: FaceAdjacency, colors: number[]): number[] {
+  const { offsets, neighbors, edgeLengths } = adjacency;
+  const next = [...colors];
+
+  for (let f = 0; f < colors.length; f++) {
+    let boundary = 0;
+    for (let i = offsets[f]; i < offsets[f + 1]; i++) boundary += edgeLengths[i];
+    if (boundary === 0) continue;
+
+    const candidate = dominantNeighborColor(adjacency, [f], colors, colors[f]);
+    if (candidate === null) continue;
+
+    let weight = 0;
+    for (let i = offsets[f]; i < offsets[f + 1]; i++) {
+      if (colors[neighbors[i]] === candidate) weight += edgeLengths[i];
+    }
+    if (weight > boundary / 2) next[f] = candidate;
+  }
+
+  return next;
+}
+
+/**
+ * Smooth palette assignments on the face adjacency graph of the welded mesh, then merge
+ * regions below `minRegionArea` into the neighboring color they share the longest border with.
+ * Regions with no differently colored neighbor (e.g. a separate small part) are left alone.
+ */
+export async function cleanupColorRegionsAsync(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  options: RegionCleanupOptions,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<RegionCleanupResult> {
+  onProgress?.(0, 'Construindo adjacência das faces...');
+  const adjacency = await buildFaceAdjacencyAsync(geometry, signal);
+
+  const regionsBefore = labelColorRegions(adjacency, faceColorIndices).regionCount;
+  let colors = [...faceColorIndices];
+
+  for (let pass = 0; pass < options.smoothingPasses; pass++) {
+    onProgress?.(20 + (pass / options.smoothingPasses) * 30, `Suavizando regiões (passo ${pass + 1})...`);
+    colors = majorityFilter(adjacency, colors);
+    await yieldToUI();
+    signal?.throwIfAborted();
+  }
+
+  let regions = labelColorRegions(adjacency, colors);
+
+  if (options.minRegionArea > 0) {
+    for (let round = 0; round < MAX_MERGE_ROUNDS; round++) {
+      onProgress?.(50 + (round / MAX_MERGE_ROUNDS) * 50, `Mesclando ilhas pequenas (${regions.regionCount.toLocaleString()} regiões)...`);
+
+      const small: number[] = [];
+      for (let r = 0; r < regions.regionCount; r++) {
+        if (regions.areas[r] < options.minRegionArea) small.push(r);
+      }
+      if (small.length === 0) break;
+      small.sort((a, b) => regions.areas[a] - regions.areas[b]);
+
+      // Faces of each small region
+      const facesOfRegion = new Map<number, number[]>(small.map(r => [r, []]));
+      for (let f = 0; f < colors.length; f++) {
+        facesOfRegion.get(regions.regionOfFace[f])?.push(f);
+      }
+
+      // Smallest first; later regions see the colors merged before them
+      let merged = 0;
+      for (const r of small) {
+        const faces = facesOfRegion.get(r)!;
+        const target = dominantNeighborColor(adjacency, faces, colors, colors[faces[0]]);
+        if (target === null) continue;
+        for (const f of faces) colors[f] = target;
+        merged++;
+      }
+
+      await yieldToUI();
+      signal?.throwIfAborted();
+
+      if (merged === 0) break;
+      regions = labelColorRegions(adjacency, colors);
+    }
+  }
+
+  let changedFaces = 0;
+  for (let f = 0; f < colors.length; f++) {
+    if (colors[f] !== faceColorIndices[f]) changedFaces++;
+  }
+
+  console.log(`[cleanupColorRegionsAsync] Regions ${regionsBefore} → ${regions.regionCount}, ${changedFaces} faces recolored`);
+
+  return {
+    faceColorIndices: colors,
+    regionsBefore,
+    regionsAfter: regions.regionCount,
+    changedFaces,
+  };
+}
+
+function computeCentroids(geometry: THREE.BufferGeometry): Float32Array {
+  const posAttr = geometry.getAttribute('position');
+  const indexAttr = geometry.getIndex();
+  const faceCount = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+  const centroids = new Float32Array(faceCount * 3);
+
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const vi = indexAttr ? indexAttr.getX(f * 3 + k) : f * 3 + k;
+      centroids[f * 3] += posAttr.getX(vi) / 3;
+      centroids[f * 3 + 1] += posAttr.getY(vi) / 3;
+      centroids[f * 3 + 2] += posAttr.getZ(vi) / 3;
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Estimate the width of every color region as twice the largest distance, walking over the
+ * surface, from a face centroid to the region border. Faces on the border start at the
+ * centroid-to-edge distance; distances then grow centroid to centroid (Dijkstra).
+ * Regions without a differently colored neighbor have infinite width.
+ */
+function measureRegionWidths(
+  adjacency: FaceAdjacency,
+  centroids: Float32Array,
+  colors: number[],
+  regions: ColorRegions
+): number[] {
+  const { offsets, neighbors, edgeLengths, areas } = adjacency;
+  const distance = new Float64Array(colors.length).fill(Infinity);
+  const heap = new FaceHeap();
+
+  for (let f = 0; f < colors.length; f++) {
+    for (let i = offsets[f]; i < offsets[f + 1]; i++) {
+      if (colors[neighbors[i]] === colors[f] || edgeLengths[i] === 0) continue;
+      // Centroid to edge: a third of the triangle height over that edge
+      const seed = (2 * areas[f]) / (3 * edgeLengths[i]);
+      if (seed < distance[f]) distance[f] = seed;
+    }
+    if (distance[f] < Infinity) heap.push(f, distance[f]);
+  }
+
+  while (heap.size > 0) {
+    const [f, d] = heap.pop();
+    if (d > distance[f]) continue;
+    for (let i = offsets[f]; i < offsets[f + 1]; i++) {
+      const n = neighbors[i];
+      if (colors[n] !== colors[f]) continue;
+      const step = Math.hypot(
+        centroids[n * 3] - centroids[f * 3],
+        centroids[n * 3 + 1] - centroids[f * 3 + 1],
+        centroids[n * 3 + 2] - centroids[f * 3 + 2]
+      );
+      if (d + step < distance[n]) {
+        distance[n] = d + step;
+        heap.push(n, d + step);
+      }
+    }
+  }
+
+  const widths = new Array<number>(regions.regionCount).fill(0);
+  for (let f = 0; f < colors.length; f++) {
+    const r = regions.regionOfFace[f];
+    widths[r] = Math.max(widths[r], 2 * distance[f]);
+  }
+  return widths;
+}
+
+/**
+ * Find color regions narrower than `minWidth` (too thin to print as a separate filament)
+ * and optionally merge them into the neighboring color they share the longest border with.
+ */
+export async function resolveThinRegionsAsync(
+  geometry: THREE.BufferGeometry,
+  faceColorIndices: number[],
+  options: ThinRegionOptions,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<ThinRegionResult> {
+  onProgress?.(0, 'Medindo largura das regiões...');
+  const adjacency = await buildFaceAdjacencyAsync(geometry, signal);
+  const centroids = computeCentroids(geometry);
+
+  const colors = [...faceColorIndices];
+  let regions = labelColorRegions(adjacency, colors);
+  let widths = measureRegionWidths(adjacency, centroids, colors, regions);
+  const thinRegions = widths.filter(w => w < options.minWidth).length;
+  let mergedRegions = 0;
+
+  if (options.merge) {
+    for (let round = 0; round < MAX_MERGE_ROUNDS; round++) {
+      onProgress?.(30 + (round / MAX_MERGE_ROUNDS) * 70, 'Mesclando regiões finas...');
+
+      const thin = new Set<number>();
+      for (let r = 0; r < regions.regionCount; r++) {
+        if (widths[r] < options.minWidth) thin.add(r);
+      }
+      if (thin.size === 0) break;
+
+      const facesOfRegion = new Map<number, number[]>(Array.from(thin, r => [r, []]));
+      for (let f = 0; f < colors.length; f++) {
+        facesOfRegion.get(regions.regionOfFace[f])?.push(f);
+      }
+
+      // Thinnest first, like small regions are merged smallest first
+      let merged = 0;
+      for (const r of Array.from(thin).sort((a, b) => widths[a] - widths[b])) {
+        const faces = facesOfRegion.get(r)!;
+        const target = dominantNeighborColor(adjacency, faces, colors, colors[faces[0]]);
+        if (target === null) continue;
+        for (const f of faces) colors[f] = target;
+        merged++;
+      }
+
+      await yieldToUI();
+      signal?.throwIfAborted();
+
+      if (merged === 0) break;
+      mergedRegions += merged;
+      regions = labelColorRegions(adjacency, colors);
+      widths = measureRegionWidths(adjacency, centroids, colors, regions);
+    }
+  }
+
+  const thinFaces: number[] = [];
+  for (let f = 0; f < colors.length; f++) {
+    if (widths[regions.regionOfFace[f]] < options.minWidth) thinFaces.push(f);
+  }
+
+  console.log(`[resolveThinRegionsAsync] ${thinRegions} regions below ${options.minWidth} mm, ${mergedRegions} merged, ${thinFaces.length} faces still thin`);
+
+  return { faceColorIndices: colors, thinRegions, mergedRegions, thinFaces };
+}
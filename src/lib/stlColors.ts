@@ -0,0 +1,45 @@
+// Binary STL color extensions. STLLoader reads the Materialise Magics variant ("COLOR=" in the
+// header, bit 15 clear on colored facets); the VisCAM/SolidView variant, which sets bit 15 on
+// colored facets and stores the channels in the opposite order, is read here
+import * as THREE from 'three';
+
+const HEADER_SIZE = 84;
+const FACE_SIZE = 50;
+// Offset of the 16-bit attribute word inside a facet record
+const ATTRIBUTE_OFFSET = 48;
+
+/** Binary STLs are recognized by their size matching the facet count in the header */
+export function isBinarySTL(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < HEADER_SIZE) return false;
+  const faces = new DataView(buffer).getUint32(80, true);
+  return buffer.byteLength === HEADER_SIZE + faces * FACE_SIZE;
+}
+
+/**
+ * Per-vertex colors (linear, three per facet in file order, as STLLoader lays out the vertices)
+ * from VisCAM/SolidView facet colors: bit 15 marks a valid color, red in bits 10-14, green in
+ * 5-9 and blue in 0-4. Facets without one get `defaultColor`. Null when no facet is colored.
+ */
+export function readVisCamColors(buffer: ArrayBuffer, defaultColor: THREE.Color): Float32Array | null {
+  if (!isBinarySTL(buffer)) return null;
+
+  const reader = new DataView(buffer);
+  const faces = reader.getUint32(80, true);
+  const colors = new Float32Array(faces * 9);
+  const color = new THREE.Color();
+  let coloredFaces = 0;
+
+  for (let face = 0; face < faces; face++) {
+    const packed = reader.getUint16(HEADER_SIZE + face * FACE_SIZE + ATTRIBUTE_OFFSET, true);
+    if (packed & 0x8000) {
+      color.setRGB(((packed >> 10) & 0x1f) / 31, ((packed >> 5) & 0x1f) / 31, (packed & 0x1f) / 31, THREE.SRGBColorSpace);
+      coloredFaces++;
+    } else {
+      color.copy(defaultColor);
+    }
+    for (let corner = 0; corner < 3; corner++) color.toArray(colors, face * 9 + corner * 3);
+  }
+
+  console.log(`[readVisCamColors] ${coloredFaces}/${faces} facets colored`);
+  return coloredFaces > 0 ? colors : null;
+}
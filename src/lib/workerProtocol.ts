@@ -0,0 +1,240 @@
+// Message types and (de)serialization helpers shared by the pipeline worker and its client.
+// Geometry travels as typed arrays whose buffers are transferred, textures as ImageBitmaps.
+import * as THREE from 'three';
+import { MeshSource } from './colorExtractor';
+import { DetailLevel, ExportData, ProcessedMesh, ProcessingOptions, ProcessingProgress, ProcessingResult } from './meshProcessor';
+import { ExportOptions, ExportReport } from './export3MF';
+
+type AttributeArray = Float32Array | Uint32Array | Uint16Array | Uint8Array | Int16Array | Int8Array;
+
+export interface SerializedAttribute {
+  array: AttributeArray;
+  itemSize: number;
+  normalized: boolean;
+}
+
+export interface SerializedGeometry {
+  attributes: Record<string, SerializedAttribute>;
+  index: Uint32Array | Uint16Array | null;
+}
+
+export interface SerializedTexture {
+  image: ImageBitmap;
+  flipY: boolean;
+  wrapS: THREE.Wrapping;
+  wrapT: THREE.Wrapping;
+}
+
+export interface SerializedMaterial {
+  name: string;
+  color: [number, number, number] | null;
+  map: SerializedTexture | null;
+}
+
+export interface SerializedSource {
+  geometry: SerializedGeometry;
+  materials: SerializedMaterial[];
+  groups: MeshSource['groups'];
+  matrixWorld: number[];
+  name: string;
+}
+
+export interface SerializedProcessingResult extends Omit<ProcessingResult, 'meshes' | 'exportData' | 'thinRegions'> {
+  meshes: (Omit<ProcessedMesh, 'geometry'> & { geometry: SerializedGeometry })[];
+  exportData: Omit<ExportData, 'geometry' | 'textures'> & { geometry: SerializedGeometry };
+  thinRegions?: Omit<NonNullable<ProcessingResult['thinRegions']>, 'geometry'> & { geometry?: SerializedGeometry };
+}
+
+export interface SerializedExportData extends Omit<ExportData, 'geometry' | 'textures'> {
+  geometry: SerializedGeometry;
+  textures: (SerializedTexture | null)[];
+}
+
+/** Options as posted to the worker: AbortSignal is not cloneable and is handled by the client */
+export type WorkerProcessingOptions = Omit<ProcessingOptions, 'signal'>;
+export type WorkerExportOptions = Omit<ExportOptions, 'signal'>;
+
+export type WorkerRequest =
+  | { type: 'process'; sources: SerializedSource[]; detailLevel: DetailLevel; numColors: number; options: WorkerProcessingOptions }
+  | { type: 'export'; exportData: SerializedExportData; filename: string; options: WorkerExportOptions };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'processed'; result: SerializedProcessingResult }
+  | { type: 'exported'; blob: Blob; report: ExportReport }
+  | { type: 'error'; message: string };
+
+// ===== GEOMETRY =====
+
+/**
+ * Copy geometry attributes into standalone typed arrays and register their buffers for transfer.
+ * Interleaved attributes are de-interleaved into a Float32Array.
+ */
+export function serializeGeometry(geometry: THREE.BufferGeometry, transfer: Transferable[]): SerializedGeometry {
+  const attributes: Record<string, SerializedAttribute> = {};
+
+  for (const [name, attr] of Object.entries(geometry.attributes)) {
+    let array: AttributeArray;
+
+    if (attr instanceof THREE.InterleavedBufferAttribute) {
+      const getters = [attr.getX, attr.getY, attr.getZ, attr.getW];
+      array = new Float32Array(attr.count * attr.itemSize);
+      for (let i = 0; i < attr.count; i++) {
+        for (let c = 0; c < attr.itemSize; c++) {
+          array[i * attr.itemSize + c] = getters[c].call(attr, i);
+        }
+      }
+    } else {
+      array = (attr.array as AttributeArray).slice();
+    }
+
+    transfer.push(array.buffer);
+    attributes[name] = {
+      array,
+      itemSize: attr.itemSize,
+      // Interleaved values were already denormalized by the getters
+      normalized: attr instanceof THREE.InterleavedBufferAttribute ? false : attr.normalized,
+    };
+  }
+
+  const indexAttr = geometry.getIndex();
+  let index: Uint32Array | Uint16Array | null = null;
+  if (indexAttr) {
+    index = indexAttr.array instanceof Uint16Array
+      ? indexAttr.array.slice()
+      : Uint32Array.from(indexAttr.array as ArrayLike<number>);
+    transfer.push(index.buffer);
+  }
+
+  return { attributes, index };
+}
+
+export function deserializeGeometry(data: SerializedGeometry): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+
+  for (const [name, attr] of Object.entries(data.attributes)) {
+    geometry.setAttribute(name, new THREE.BufferAttribute(attr.array, attr.itemSize, attr.normalized));
+  }
+  if (data.index) {
+    geometry.setIndex(new THREE.BufferAttribute(data.index, 1));
+  }
+
+  geometry.computeBoundingBox();
+  return geometry;
+}
+
+// ===== TEXTURES AND MATERIALS =====
+
+/**
+ * Decode a texture into an ImageBitmap (one per texture, cached by uuid).
+ */
+export async function serializeTexture(
+  texture: THREE.Texture,
+  cache: Map<string, SerializedTexture>,
+  transfer: Transferable[]
+): Promise<SerializedTexture | null> {
+  if (cache.has(texture.uuid)) return cache.get(texture.uuid)!;
+  if (!texture.image) return null;
+
+  try {
+    const image = await createImageBitmap(texture.image as ImageBitmapSource);
+    const serialized: SerializedTexture = {
+      image,
+      flipY: texture.flipY,
+      wrapS: texture.wrapS,
+      wrapT: texture.wrapT,
+    };
+    cache.set(texture.uuid, serialized);
+    transfer.push(image);
+    return serialized;
+  } catch (e) {
+    console.warn('[workerProtocol] Could not decode texture:', e);
+    return null;
+  }
+}
+
+export function deserializeTexture(data: SerializedTexture, cache: Map<ImageBitmap, THREE.Texture>): THREE.Texture {
+  if (cache.has(data.image)) return cache.get(data.image)!;
+
+  const texture = new THREE.Texture(data.image);
+  texture.flipY = data.flipY;
+  texture.wrapS = data.wrapS;
+  texture.wrapT = data.wrapT;
+  cache.set(data.image, texture);
+  return texture;
+}
+
+export async function serializeSources(sources: MeshSource[], transfer: Transferable[]): Promise<SerializedSource[]> {
+  const textureCache = new Map<string, SerializedTexture>();
+  const result: SerializedSource[] = [];
+
+  for (const source of sources) {
+    const materials: SerializedMaterial[] = [];
+    for (const material of source.materials) {
+      const stdMat = material as THREE.MeshStandardMaterial;
+      materials.push({
+        name: material.name,
+        color: stdMat.color ? [stdMat.color.r, stdMat.color.g, stdMat.color.b] : null,
+        map: stdMat.map ? await serializeTexture(stdMat.map, textureCache, transfer) : null,
+      });
+    }
+
+    result.push({
+      geometry: serializeGeometry(source.geometry, transfer),
+      materials,
+      groups: source.groups.map(g => ({ ...g })),
+      matrixWorld: source.matrixWorld.toArray(),
+      name: source.name,
+    });
+  }
+
+  return result;
+}
+
+export function deserializeSources(sources: SerializedSource[]): MeshSource[] {
+  const textureCache = new Map<ImageBitmap, THREE.Texture>();
+
+  return sources.map(source => ({
+    geometry: deserializeGeometry(source.geometry),
+    materials: source.materials.map(m => {
+      const material = new THREE.MeshStandardMaterial({ name: m.name });
+      if (m.color) material.color.setRGB(m.color[0], m.color[1], m.color[2]);
+      if (m.map) material.map = deserializeTexture(m.map, textureCache);
+      return material;
+    }),
+    groups: source.groups,
+    matrixWorld: new THREE.Matrix4().fromArray(source.matrixWorld),
+    name: source.name,
+  }));
+}
+
+// ===== RESULTS =====
+
+export function serializeProcessingResult(result: ProcessingResult, transfer: Transferable[]): SerializedProcessingResult {
+  const { textures: _textures, ...exportData } = result.exportData;
+
+  return {
+    ...result,
+    meshes: result.meshes.map(mesh => ({ ...mesh, geometry: serializeGeometry(mesh.geometry, transfer) })),
+    exportData: { ...exportData, geometry: serializeGeometry(result.exportData.geometry, transfer) },
+    thinRegions: result.thinRegions && {
+      ...result.thinRegions,
+      geometry: result.thinRegions.geometry && serializeGeometry(result.thinRegions.geometry, transfer),
+    },
+  };
+}
+
+export function deserializeProcessingResult(
+  result: SerializedProcessingResult,
+  textures: (THREE.Texture | null)[]
+): ProcessingResult {
+  return {
+    ...result,
+    meshes: result.meshes.map(mesh => ({ ...mesh, geometry: deserializeGeometry(mesh.geometry) })),
+    exportData: { ...result.exportData, geometry: deserializeGeometry(result.exportData.geometry), textures },
+    thinRegions: result.thinRegions && {
+      ...result.thinRegions,
+      geometry: result.thinRegions.geometry && deserializeGeometry(result.thinRegions.geometry),
+    },
+  };
+}
@@ -0,0 +1,44 @@
+// ZIP bundles (marketplace and AI-generator downloads): unpacked in the browser into File
+// objects that keep their paths, so models resolve their companion files as if dropped as a folder
+import JSZip from 'jszip';
+import { withRelativePath } from './fileResolver';
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gltf: 'model/gltf+json',
+  glb: 'model/gltf-binary',
+};
+
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+// macOS resource forks and hidden files are never part of the model
+function isJunkPath(path: string): boolean {
+  return path.split('/').some(segment => segment === '__MACOSX' || segment.startsWith('.'));
+}
+
+/**
+ * Extract every file of the archive, with its path inside the archive as webkitRelativePath.
+ */
+export async function extractZipFiles(file: File): Promise<File[]> {
+  const zip = await JSZip.loadAsync(file);
+
+  const entries: JSZip.JSZipObject[] = [];
+  zip.forEach((path, entry) => {
+    if (!entry.dir && !isJunkPath(path)) entries.push(entry);
+  });
+
+  const files = await Promise.all(entries.map(async (entry) => {
+    const name = entry.name.slice(entry.name.lastIndexOf('/') + 1);
+    const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+    const blob = await entry.async('blob');
+    return withRelativePath(new File([blob], name, { type: MIME_TYPES[extension] ?? '' }), entry.name);
+  }));
+
+  console.log(`[extractZipFiles] ${file.name}: ${files.length} files`);
+  return files;
+}
@@ -1,36 +1,113 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import * as THREE from 'three';
 import { Header } from '@/components/Header';
 import { FileUpload } from '@/components/FileUpload';
 import { ModelViewer } from '@/components/ModelViewer';
 import { ControlPanel } from '@/components/ControlPanel';
 import { ProgressBar } from '@/components/ProgressBar';
 import { Inspector3MF } from '@/components/Inspector3MF';
+import { FilamentLibrary } from '@/components/FilamentLibrary';
 import { useModelLoader } from '@/hooks/useModelLoader';
+import { useFilamentLibrary } from '@/hooks/useFilamentLibrary';
 import { 
-  processMeshAsync, 
   DetailLevel, 
+  SubdivisionMode,
   ProcessingResult, 
   ProcessingProgress,
+  ProcessingOptions,
   getEstimatedTriangleCount,
   TRIANGLE_LIMITS,
   estimateProcessingTime
 } from '@/lib/meshProcessor';
-import { export3MF, downloadBlob, MAX_TRIANGLES_WARNING, MAX_TRIANGLES_LIMIT, ExportReport } from '@/lib/export3MF';
+import { processMeshInWorker, export3MFInWorker } from '@/lib/pipelineWorker';
+import { findBestOrientationAsync, getLayFlatRotation } from '@/lib/autoOrient';
+import { ColorSpace, DEFAULT_KMEANS_ITERATIONS } from '@/lib/colorQuantization';
+import { PaletteMode } from '@/lib/filamentLibrary';
+import { SamplingMode, combineSourcesToGeometry } from '@/lib/colorExtractor';
+import {
+  BedSize,
+  DEFAULT_BED_SIZE,
+  ModelOrientation,
+  ModelSizing,
+  applyRotation,
+  computeSizingScale,
+  detectSourceUnit,
+  getDefaultOrientation,
+  getOrientationMatrix,
+  getSourcesBoundingBox,
+  transformSources,
+} from '@/lib/modelTransform';
+import { downloadBlob, MAX_TRIANGLES_WARNING, MAX_TRIANGLES_LIMIT, ExportReport, ExportMode } from '@/lib/export3MF';
+import { getFilePath } from '@/lib/fileResolver';
 import { toast } from 'sonner';
-import { AlertCircle, ArrowLeft, AlertTriangle, Info, FileSearch } from 'lucide-react';
+import { AlertCircle, ArrowLeft, AlertTriangle, Info, FileSearch, Box } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
+// Majority filter passes when edge smoothing is on
+const SMOOTHING_PASSES = 2;
+
+const DEFAULT_SIZING: ModelSizing = { unit: 'mm', mode: 'scale', value: 1 };
+
 export default function Index() {
-  const { model, loading, error, loadModel, clearModel } = useModelLoader();
+  const { model, loading, error, loadModel, modelChoice, chooseModel, cancelModelChoice, clearModel } = useModelLoader();
+  const filamentLibrary = useFilamentLibrary();
   
   const [detailLevel, setDetailLevel] = useState<DetailLevel>('auto');
+  const [subdivisionMode, setSubdivisionMode] = useState<SubdivisionMode>('uniform');
+  const [maxEdgeLength, setMaxEdgeLength] = useState(1);
   const [numColors, setNumColors] = useState(4);
+  const [samplingMode, setSamplingMode] = useState<SamplingMode>('centroid');
+  const [splitColorBoundaries, setSplitColorBoundaries] = useState(false);
+  const [minRegionArea, setMinRegionArea] = useState(0);
+  const [smoothRegions, setSmoothRegions] = useState(false);
+  const [nozzleDiameter, setNozzleDiameter] = useState(0.4);
+  const [mergeThinRegions, setMergeThinRegions] = useState(false);
+  const [repairMesh, setRepairMesh] = useState(false);
+  const [colorSpace, setColorSpace] = useState<ColorSpace>('srgb');
+  const [refinePalette, setRefinePalette] = useState(false);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>('auto');
+  const [showFilamentLibrary, setShowFilamentLibrary] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
   const [processingResult, setProcessingResult] = useState<ProcessingResult | null>(null);
   const [showProcessed, setShowProcessed] = useState(false);
   const [showInspector, setShowInspector] = useState(false);
   const [lastExportReport, setLastExportReport] = useState<ExportReport | null>(null);
+  const [exportMode, setExportMode] = useState<ExportMode>('flat');
+  const [sizing, setSizing] = useState<ModelSizing>(DEFAULT_SIZING);
+  const [orientation, setOrientation] = useState<ModelOrientation>(() => getDefaultOrientation('gltf'));
+  const [bedSize, setBedSize] = useState<BedSize>(DEFAULT_BED_SIZE);
+  const [isOrienting, setIsOrienting] = useState(false);
+  const [layFlatMode, setLayFlatMode] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Unit guess from the raw source size; sizing and orientation start over on every new model
+  const unitDetection = useMemo(
+    () => (model ? detectSourceUnit(model.format, getSourcesBoundingBox(model.sources).getSize(new THREE.Vector3())) : undefined),
+    [model]
+  );
+  useEffect(() => {
+    if (!model || !unitDetection) return;
+    setSizing({ unit: unitDetection.unit, mode: 'scale', value: 1 });
+    setOrientation(getDefaultOrientation(model.format));
+  }, [model, unitDetection]);
+
+  // Size in print axes (Z-up, source units) drives the sizing targets
+  const orientationMatrix = useMemo(() => getOrientationMatrix(orientation), [orientation]);
+  const orientedSize = useMemo(
+    () => (model ? getSourcesBoundingBox(model.sources, orientationMatrix).getSize(new THREE.Vector3()) : null),
+    [model, orientationMatrix]
+  );
+
+  const modelScale = orientedSize ? computeSizingScale(orientedSize, sizing) : 1;
+  const modelMatrix = useMemo(
+    () => orientationMatrix.clone().multiply(new THREE.Matrix4().makeScale(modelScale, modelScale, modelScale)),
+    [orientationMatrix, modelScale]
+  );
+  const modelDimensions = useMemo(
+    () => (orientedSize ?? new THREE.Vector3()).clone().multiplyScalar(modelScale),
+    [orientedSize, modelScale]
+  );
 
   // Calculate estimated triangles and warnings
   const estimatedTriangles = model ? getEstimatedTriangleCount(model.triangleCount, detailLevel) : 0;
@@ -38,7 +115,7 @@ export default function Index() {
   const exceedsLimit = estimatedTriangles > TRIANGLE_LIMITS.MAX;
   const estimatedTime = model ? estimateProcessingTime(model.triangleCount, detailLevel) : 0;
 
-  const handleProcess = useCallback(async () => {
+  const handleProcess = useCallback(async (overrides: Partial<ProcessingOptions> = {}) => {
     if (!model) return;
 
     if (exceedsLimit) {
@@ -46,29 +123,123 @@ export default function Index() {
       return;
     }
 
+    if (paletteMode !== 'auto' && filamentLibrary.filaments.length === 0) {
+      toast.error('Cadastre pelo menos um filamento na biblioteca');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsProcessing(true);
     setShowProcessed(false);
     setProcessingProgress({ stage: 'simplifying', progress: 0, message: 'Iniciando...' });
     
     try {
-      const result = await processMeshAsync(
-        model.sources,
+      // Everything downstream (and the exported 3MF) is Z-up and in millimeters
+      const result = await processMeshInWorker(
+        transformSources(model.sources, modelMatrix),
         detailLevel,
         numColors,
-        setProcessingProgress
+        setProcessingProgress,
+        {
+          samplingMode,
+          subdivisionMode,
+          maxEdgeLength,
+          splitColorBoundaries,
+          minRegionArea,
+          smoothingPasses: smoothRegions ? SMOOTHING_PASSES : 0,
+          nozzleDiameter,
+          mergeThinRegions,
+          repairMesh,
+          colorSpace,
+          kMeansIterations: refinePalette ? DEFAULT_KMEANS_ITERATIONS : 0,
+          paletteMode,
+          filamentLibrary: filamentLibrary.filaments,
+          signal: controller.signal,
+          ...overrides,
+        }
       );
       
       setProcessingResult(result);
       setShowProcessed(true);
       toast.success(`Processado! ${result.meshes.length} meshes criadas.`);
     } catch (err) {
-      toast.error('Erro ao processar modelo');
-      console.error(err);
+      if (controller.signal.aborted) {
+        toast.info('Processamento cancelado');
+      } else {
+        toast.error('Erro ao processar modelo');
+        console.error(err);
+      }
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
       setProcessingProgress(null);
     }
-  }, [model, detailLevel, numColors, exceedsLimit]);
+  }, [model, modelMatrix, detailLevel, subdivisionMode, maxEdgeLength, numColors, samplingMode, splitColorBoundaries, minRegionArea, smoothRegions, nozzleDiameter, mergeThinRegions, repairMesh, colorSpace, refinePalette, paletteMode, filamentLibrary.filaments, exceedsLimit]);
+
+  const handleMergeThinRegions = useCallback(() => {
+    setMergeThinRegions(true);
+    handleProcess({ mergeThinRegions: true });
+  }, [handleProcess]);
+
+  // A processed result no longer matches the new size
+  const handleSizingChange = useCallback((next: ModelSizing) => {
+    setSizing(next);
+    setProcessingResult(null);
+    setShowProcessed(false);
+  }, []);
+
+  const handleOrientationChange = useCallback((next: ModelOrientation) => {
+    setOrientation(next);
+    setProcessingResult(null);
+    setShowProcessed(false);
+  }, []);
+
+  const handleFacePick = useCallback((normal: THREE.Vector3) => {
+    handleOrientationChange(applyRotation(orientation, getLayFlatRotation(normal)));
+    setLayFlatMode(false);
+  }, [orientation, handleOrientationChange]);
+
+  const handleAutoOrient = useCallback(async () => {
+    if (!model) return;
+
+    setIsOrienting(true);
+    setLayFlatMode(false);
+    // The processed mesh carries the palette, so support on colored detail can be avoided
+    const geometry = processingResult
+      ? processingResult.exportData.geometry
+      : combineSourcesToGeometry(transformSources(model.sources, modelMatrix));
+
+    try {
+      const { best, current, rotation } = await findBestOrientationAsync(
+        geometry,
+        processingResult?.exportData.faceColorIndices
+      );
+
+      if (best === current) {
+        toast.info('A orientação atual já é a melhor encontrada');
+        return;
+      }
+
+      handleOrientationChange(applyRotation(orientation, rotation));
+      toast.success('Modelo reorientado', {
+        description: `Suporte: ${current.overhangArea.toFixed(0)} → ${best.overhangArea.toFixed(0)} mm² • Altura: ${current.height.toFixed(1)} → ${best.height.toFixed(1)} mm`,
+      });
+    } catch (err) {
+      toast.error('Erro ao orientar modelo');
+      console.error(err);
+    } finally {
+      if (!processingResult) geometry.dispose();
+      setIsOrienting(false);
+    }
+  }, [model, modelMatrix, orientation, processingResult, handleOrientationChange]);
+
+  const handleCancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const handleExport = useCallback(async () => {
     if (!processingResult || !model) return;
@@ -85,8 +256,18 @@ export default function Index() {
       toast.warning(`Modelo grande (${triCount.toLocaleString()} triângulos). O import no OrcaSlicer pode ser lento.`);
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsProcessing(true);
+    setProcessingProgress({ stage: 'exporting', progress: 0, message: 'Gerando arquivo 3MF...' });
+
     try {
-      const { blob, report } = await export3MF(processingResult.exportData, model.name);
+      const { blob, report } = await export3MFInWorker(processingResult.exportData, model.name, {
+        mode: exportMode,
+        bedSize,
+        signal: controller.signal,
+      });
       setLastExportReport(report);
       downloadBlob(blob, `${model.name}_multi-material.3mf`);
       
@@ -96,12 +277,25 @@ export default function Index() {
       
       console.log('[Export Report]', report);
     } catch (err) {
-      toast.error('Erro ao exportar 3MF');
-      console.error(err);
+      if (controller.signal.aborted) {
+        toast.info('Exportação cancelada');
+      } else {
+        toast.error('Erro ao exportar 3MF', {
+          description: err instanceof Error ? err.message : undefined,
+        });
+        console.error(err);
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsProcessing(false);
+      setProcessingProgress(null);
     }
-  }, [processingResult, model]);
+  }, [processingResult, model, exportMode, bedSize]);
 
   const handleReset = useCallback(() => {
+    abortControllerRef.current?.abort();
     clearModel();
     setProcessingResult(null);
     setShowProcessed(false);
@@ -113,6 +307,18 @@ export default function Index() {
       
       {/* Inspector Modal */}
       {showInspector && <Inspector3MF onClose={() => setShowInspector(false)} />}
+
+      {/* Filament Library Modal */}
+      {showFilamentLibrary && (
+        <FilamentLibrary
+          filaments={filamentLibrary.filaments}
+          onAdd={filamentLibrary.addFilament}
+          onUpdate={filamentLibrary.updateFilament}
+          onRemove={filamentLibrary.removeFilament}
+          onReset={filamentLibrary.resetLibrary}
+          onClose={() => setShowFilamentLibrary(false)}
+        />
+      )}
       
       <main className="container mx-auto px-4 py-8">
         {!model ? (
@@ -123,7 +329,7 @@ export default function Index() {
                 Converta Texturas 3D para Multi-Material
               </h2>
               <p className="text-muted-foreground">
-                Carregue um modelo GLB ou OBJ texturizado e exporte um 3MF com meshes separadas por cor,
+                Carregue um modelo GLB, OBJ, PLY, STL ou 3MF colorido (ou um ZIP com ele) e exporte um 3MF com meshes separadas por cor,
                 pronto para impressão colorida no AMS/Bambu Studio/OrcaSlicer.
               </p>
             </div>
@@ -133,6 +339,36 @@ export default function Index() {
               loading={loading}
             />
 
+            {modelChoice && (
+              <div className="mt-4 p-4 bg-card border border-border rounded-lg">
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-sm font-medium text-foreground">
+                    {modelChoice.candidates.length} modelos encontrados — escolha qual converter:
+                  </p>
+                  <button
+                    onClick={cancelModelChoice}
+                    className="text-xs text-muted-foreground hover:text-destructive transition-colors"
+                  >
+                    Cancelar
+                  </button>
+                </div>
+                <div className="flex flex-col gap-2">
+                  {modelChoice.candidates.map((candidate) => (
+                    <Button
+                      key={getFilePath(candidate)}
+                      variant="outline"
+                      className="justify-start gap-2 font-mono text-xs"
+                      disabled={loading}
+                      onClick={() => chooseModel(candidate)}
+                    >
+                      <Box className="w-4 h-4 text-primary" />
+                      {getFilePath(candidate)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {error && (
               <div className="mt-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start gap-3">
                 <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
@@ -148,7 +384,7 @@ export default function Index() {
                 <div className="text-2xl mb-2">📤</div>
                 <h3 className="font-medium text-foreground">1. Upload</h3>
                 <p className="text-sm text-muted-foreground">
-                  Carregue GLB ou OBJ com textura
+                  Carregue GLB, OBJ, PLY, STL ou 3MF com cor
                 </p>
               </div>
               <div className="p-4 bg-card rounded-lg border border-border">
@@ -202,8 +438,12 @@ export default function Index() {
               <div className="aspect-[4/3] lg:aspect-[16/10] rounded-lg overflow-hidden border border-border viewer-gradient">
                 <ModelViewer
                   originalObject={model.originalObject}
+                  modelMatrix={modelMatrix}
+                  dimensions={modelDimensions}
                   processedMeshes={processingResult?.meshes}
+                  highlightGeometry={processingResult?.thinRegions?.geometry}
                   showProcessed={showProcessed}
+                  onFacePick={layFlatMode ? handleFacePick : undefined}
                   className="w-full h-full"
                 />
               </div>
@@ -225,7 +465,7 @@ export default function Index() {
 
               {/* Processing Progress */}
               {isProcessing && processingProgress && (
-                <ProgressBar progress={processingProgress} />
+                <ProgressBar progress={processingProgress} onCancel={handleCancelProcessing} />
               )}
 
               {/* Warning for high triangle count */}
@@ -274,18 +514,64 @@ export default function Index() {
             <div className="lg:sticky lg:top-4 lg:self-start space-y-4">
               <ControlPanel
                 originalTriangles={model.triangleCount}
+                sizing={sizing}
+                onSizingChange={handleSizingChange}
+                unitDetection={unitDetection}
+                sizingScale={modelScale}
+                dimensions={modelDimensions}
+                orientation={orientation}
+                onOrientationChange={handleOrientationChange}
+                bedSize={bedSize}
+                onBedSizeChange={setBedSize}
+                onAutoOrient={handleAutoOrient}
+                isOrienting={isOrienting}
+                layFlatMode={layFlatMode}
+                onLayFlatModeChange={setLayFlatMode}
                 detailLevel={detailLevel}
                 onDetailLevelChange={setDetailLevel}
+                subdivisionMode={subdivisionMode}
+                onSubdivisionModeChange={setSubdivisionMode}
+                maxEdgeLength={maxEdgeLength}
+                onMaxEdgeLengthChange={setMaxEdgeLength}
                 numColors={numColors}
                 onNumColorsChange={setNumColors}
+                samplingMode={samplingMode}
+                onSamplingModeChange={setSamplingMode}
+                splitColorBoundaries={splitColorBoundaries}
+                onSplitColorBoundariesChange={setSplitColorBoundaries}
+                colorSpace={colorSpace}
+                onColorSpaceChange={setColorSpace}
+                refinePalette={refinePalette}
+                onRefinePaletteChange={setRefinePalette}
+                paletteMode={paletteMode}
+                onPaletteModeChange={setPaletteMode}
+                minRegionArea={minRegionArea}
+                onMinRegionAreaChange={setMinRegionArea}
+                smoothRegions={smoothRegions}
+                onSmoothRegionsChange={setSmoothRegions}
+                nozzleDiameter={nozzleDiameter}
+                onNozzleDiameterChange={setNozzleDiameter}
+                mergeThinRegions={mergeThinRegions}
+                onMergeThinRegionsChange={setMergeThinRegions}
+                onMergeThinRegions={handleMergeThinRegions}
+                repairMesh={repairMesh}
+                onRepairMeshChange={setRepairMesh}
+                onOpenFilamentLibrary={() => setShowFilamentLibrary(true)}
                 isProcessing={isProcessing}
                 isProcessed={!!processingResult}
-                onProcess={handleProcess}
+                onProcess={() => handleProcess()}
                 showProcessed={showProcessed}
                 onTogglePreview={() => setShowProcessed(!showProcessed)}
+                exportMode={exportMode}
+                onExportModeChange={setExportMode}
                 onExport={handleExport}
                 colorStats={processingResult?.colorStats}
+                paletteFilaments={processingResult?.filaments}
                 processedTriangles={processingResult?.processedTriangles}
+                uvDistortion={processingResult?.simplification?.uvDistortion}
+                regionCounts={processingResult?.regions}
+                thinRegions={processingResult?.thinRegions}
+                repairStats={processingResult?.repair}
                 estimatedTriangles={estimatedTriangles}
                 exceedsLimit={exceedsLimit}
               />